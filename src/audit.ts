@@ -0,0 +1,134 @@
+import { createHash } from "crypto";
+import { appendFileSync, existsSync, renameSync, statSync, unlinkSync } from "fs";
+import { config, Config } from "./config.js";
+import { logger } from "./logger.js";
+
+export interface AuditedQuery {
+  connection: string;
+  database?: string;
+  cypher: string;
+  parameters: Record<string, unknown>;
+  rowCount?: number;
+  durationMs?: number;
+}
+
+// What a tool call did, collected while it runs
+export interface AuditRecord {
+  queries: AuditedQuery[];
+  // The caller-supplied query and the validator's verdict on it
+  validation?: { cypher: string; accepted: boolean; reason?: string };
+}
+
+export interface AuditEntry extends AuditRecord {
+  timestamp: string;
+  requestId?: string | number;
+  tool: string;
+  // Name of the token the session authenticated with
+  principal?: string;
+  connection?: string;
+  database?: string;
+  rowCount: number;
+  durationMs: number;
+  outcome: "ok" | "error" | "timeout" | "cancelled" | "denied";
+  error?: string;
+}
+
+const REDACTED = "[REDACTED]";
+
+// Key order must not change the hash of an object parameter
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+// Appends one JSON line per tool call to the configured file. Writes are synchronous so
+// entries stay in order and survive a crash right after the call.
+class AuditLog {
+  private size = 0;
+  private readonly redact: Set<string>;
+
+  constructor(private readonly settings: Config["audit"]) {
+    this.redact = new Set(settings.redact.map(name => name.toLowerCase()));
+    if (settings.file && existsSync(settings.file)) {
+      this.size = statSync(settings.file).size;
+    }
+  }
+
+  get enabled(): boolean {
+    return this.settings.file !== undefined;
+  }
+
+  // Redacts sensitive names and, unless values are logged, replaces each value by its hash
+  describeParameters(parameters: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(parameters).map(([name, value]) => {
+        if (this.redact.has(name.toLowerCase())) {
+          return [name, REDACTED];
+        }
+        if (this.settings.parameters === "values") {
+          return [name, this.redactNested(value)];
+        }
+        return [name, `sha256:${createHash("sha256").update(canonicalJson(value)).digest("hex")}`];
+      })
+    );
+  }
+
+  write(entry: AuditEntry) {
+    const file = this.settings.file;
+    if (!file) {
+      return;
+    }
+
+    try {
+      const line = `${JSON.stringify(entry)}\n`;
+      const bytes = Buffer.byteLength(line, "utf8");
+      if (this.size > 0 && this.size + bytes > this.settings.maxBytes) {
+        this.rotate(file);
+      }
+      appendFileSync(file, line, "utf8");
+      this.size += bytes;
+    } catch (error) {
+      logger.error(`Failed to write audit log ${file}:`, error);
+    }
+  }
+
+  private redactNested(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactNested(item));
+    }
+    if (value !== null && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redact.has(key.toLowerCase()) ? REDACTED : this.redactNested(item)])
+      );
+    }
+    return value;
+  }
+
+  // audit.jsonl becomes audit.jsonl.1, audit.jsonl.1 becomes audit.jsonl.2, and so on;
+  // the oldest file beyond maxFiles is deleted
+  private rotate(file: string) {
+    const oldest = `${file}.${this.settings.maxFiles}`;
+    if (existsSync(oldest)) {
+      unlinkSync(oldest);
+    }
+    for (let i = this.settings.maxFiles - 1; i >= 1; i--) {
+      if (existsSync(`${file}.${i}`)) {
+        renameSync(`${file}.${i}`, `${file}.${i + 1}`);
+      }
+    }
+    if (this.settings.maxFiles > 0) {
+      renameSync(file, `${file}.1`);
+    } else {
+      unlinkSync(file);
+    }
+    this.size = 0;
+  }
+}
+
+export const auditLog = new AuditLog(config.audit);
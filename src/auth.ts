@@ -0,0 +1,121 @@
+import { timingSafeEqual } from "crypto";
+import { IncomingHttpHeaders } from "http";
+import { Config } from "./config.js";
+import { tokenize } from "./cypher/lexer.js";
+import { referencedLabels, unlabelledNodeAccess } from "./cypher/references.js";
+import { isProcedureAllowed, parseClauses } from "./cypher/validator.js";
+import { includesDatabase } from "./databases.js";
+
+export type AccessPolicy = Config["auth"]["tokens"][number]["policy"];
+
+// The client a session was opened for and what it may do
+export interface Principal {
+  name: string;
+  policy: AccessPolicy;
+}
+
+export class AccessDeniedError extends Error {
+  constructor(message: string) {
+    super(`Access denied: ${message}`);
+    this.name = "AccessDeniedError";
+  }
+}
+
+// Everything a tool call would touch, resolved before its handler runs
+export interface ToolAccess {
+  tool: string;
+  connection: string;
+  // Undefined when the call uses the server's default database
+  database?: string;
+  labels: string[];
+  // A caller-supplied query, whose labels, procedures and USE clauses are checked too
+  query?: string;
+  // Lower-cased procedures of the server that can yield nodes, when it lists them
+  nodeProcedures?: ReadonlySet<string>;
+}
+
+// Accepts "Authorization: Bearer <token>" or "X-API-Key: <token>"
+export function presentedToken(headers: IncomingHttpHeaders): string | undefined {
+  const authorization = headers.authorization;
+  if (authorization) {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+    return match ? match[1] : undefined;
+  }
+  const apiKey = headers["x-api-key"];
+  return Array.isArray(apiKey) ? apiKey[0] : apiKey;
+}
+
+export function authenticate(tokens: Config["auth"]["tokens"], presented: string | undefined): Principal | undefined {
+  if (presented === undefined) {
+    return undefined;
+  }
+
+  const candidate = Buffer.from(presented, "utf8");
+  // Compare against every token so the time taken does not reveal which one matched
+  let match: Principal | undefined;
+  for (const entry of tokens) {
+    const expected = Buffer.from(entry.token, "utf8");
+    if (expected.length === candidate.length && timingSafeEqual(expected, candidate) && !match) {
+      match = { name: entry.name, policy: entry.policy };
+    }
+  }
+  return match;
+}
+
+// Throws unless the policy allows everything the call would touch
+export function authorize(principal: Principal, access: ToolAccess) {
+  const { policy } = principal;
+  const tokens = access.query !== undefined ? tokenize(access.query) : [];
+  const clauses = parseClauses(tokens);
+
+  if (policy.tools && !policy.tools.includes(access.tool)) {
+    throw new AccessDeniedError(`tool '${access.tool}' is not allowed for '${principal.name}'`);
+  }
+
+  if (policy.connections && !policy.connections.includes(access.connection)) {
+    throw new AccessDeniedError(`connection '${access.connection}' is not allowed for '${principal.name}'`);
+  }
+
+  if (policy.databases) {
+    const databases = [
+      access.database,
+      ...clauses.filter(clause => clause.keyword === "USE").map(clause => clause.graph),
+    ];
+    for (const database of databases) {
+      if (database === undefined) {
+        throw new AccessDeniedError(
+          `'${principal.name}' may only use the databases ${policy.databases.join(", ")}; name one with the database argument`
+        );
+      }
+      if (!includesDatabase(policy.databases, database)) {
+        throw new AccessDeniedError(`database '${database}' is not allowed for '${principal.name}'`);
+      }
+    }
+  }
+
+  if (policy.labels) {
+    const labels = [...access.labels, ...referencedLabels(tokens)];
+    for (const label of labels) {
+      if (!policy.labels.includes(label)) {
+        throw new AccessDeniedError(`label '${label}' is not allowed for '${principal.name}'`);
+      }
+    }
+
+    // Nodes a query returns are filtered by label, but values it reads from them are not,
+    // so the query must not reach nodes other than through patterns with an allowed label
+    const reason = unlabelledNodeAccess(tokens, access.nodeProcedures);
+    if (reason) {
+      throw new AccessDeniedError(
+        `'${principal.name}' may only read nodes labeled ${policy.labels.join(", ")}, but ${reason}`
+      );
+    }
+  }
+
+  if (policy.procedures) {
+    for (const clause of clauses) {
+      if (clause.procedure && !isProcedureAllowed(clause.procedure, policy.procedures)) {
+        throw new AccessDeniedError(`procedure '${clause.procedure}' is not allowed for '${principal.name}'`);
+      }
+    }
+  }
+}
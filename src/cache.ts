@@ -0,0 +1,68 @@
+import { config } from "./config.js";
+import { QueryTarget } from "./connections.js";
+import { logger } from "./logger.js";
+
+export interface Cached<T> {
+  value: T;
+  // When the value was read from the database, as an ISO-8601 timestamp
+  cachedAt: string;
+}
+
+interface Entry {
+  loaded: Promise<Cached<unknown>>;
+  expiresAt: number;
+}
+
+// Schema, index, constraint and count metadata, shared by all sessions. Entries are kept
+// for cache.ttlMs after they are read and dropped early by neo4j_refresh_cache.
+class MetadataCache {
+  private entries = new Map<string, Entry>();
+
+  constructor(private readonly ttlMs: number) {}
+
+  // Returns the cached value for `key` on the target, loading it when missing, expired
+  // or when `refresh` is set. Concurrent callers of a missing key share one load.
+  async get<T>(target: QueryTarget, key: string, load: () => Promise<T>, refresh = false): Promise<Cached<T>> {
+    const id = entryId(target, key);
+    const existing = this.entries.get(id);
+    if (existing && !refresh && existing.expiresAt > Date.now()) {
+      return existing.loaded as Promise<Cached<T>>;
+    }
+
+    const loaded = load().then(value => ({ value, cachedAt: new Date().toISOString() }));
+    if (this.ttlMs > 0) {
+      const entry = { loaded, expiresAt: Date.now() + this.ttlMs };
+      this.entries.set(id, entry);
+      // Failures are not cached; the next call tries again
+      loaded.catch(() => {
+        if (this.entries.get(id) === entry) {
+          this.entries.delete(id);
+        }
+      });
+    }
+    return loaded;
+  }
+
+  // Drops every entry of the target's connection, or of one database on it, and returns
+  // how many were dropped. Targets without a database read the server's home database;
+  // their entries are dropped with `database` set to "".
+  invalidate(connection: string, database?: string): number {
+    const prefix = database === undefined ? `${connection}\u0000` : entryId({ connection, database }, "");
+    let dropped = 0;
+    for (const id of [...this.entries.keys()]) {
+      if (id.startsWith(prefix)) {
+        this.entries.delete(id);
+        dropped++;
+      }
+    }
+    logger.debug(`Dropped ${dropped} cached metadata entries (${connection}${database ? `/${database}` : ""})`);
+    return dropped;
+  }
+}
+
+// Database names are case-insensitive
+function entryId(target: QueryTarget, key: string): string {
+  return `${target.connection}\u0000${target.database?.toLowerCase() ?? ""}\u0000${key}`;
+}
+
+export const metadataCache = new MetadataCache(config.cache.ttlMs);
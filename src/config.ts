@@ -1,88 +1,469 @@
+import { readFileSync } from "fs";
+import { extname } from "path";
+import YAML from "yaml";
 import { z } from "zod";
+import { DEFAULT_ALLOWED_PROCEDURES } from "./cypher/validator.js";
+import { includesDatabase } from "./databases.js";
+import { BUILT_IN_PROMPT_NAMES, SCHEMA_PLACEHOLDER, templatePlaceholders } from "./prompts.js";
 
-const ConfigSchema = z.object({
-  neo4j: z.object({
+const LimitsSchema = z
+  .object({
+    maxRows: z.number().int().min(1).default(1000),
+    // Serialized size of the rows in one neo4j_query page
+    maxBytes: z.number().int().min(1).default(262144),
+    maxSampleSize: z.number().int().min(1).max(50).default(50),
+    // Hops neo4j_neighborhood expands and relationships neo4j_shortest_path may cross
+    maxTraversalDepth: z.number().int().min(1).max(15).default(4),
+    // Nodes in a neighborhood, or paths returned by neo4j_shortest_path
+    maxTraversalResults: z.number().int().min(1).max(10000).default(200),
+    // Nodes or relationships read by the profile mode of the property tools
+    maxProfileSampleSize: z.number().int().min(1).max(100000).default(1000),
+    // 0 disables the timeout and leaves it to the server's dbms.transaction.timeout
+    queryTimeoutMs: z.number().int().min(0).default(30000),
+    connectionTimeoutMs: z.number().int().min(1).default(30000),
+  })
+  .strict();
+
+const ConnectionSchema = z
+  .object({
     uri: z.string().url().default("bolt://localhost:7687"),
     username: z.string().default("neo4j"),
-    password: z.string().min(1, "Password is required"),
-  }),
-});
-
-// Get configuration from environment variables or command line args
-export function getConfig() {
-  // Check for command line arguments
-  const args = process.argv.slice(2);
-  const cliConfig: any = {};
-
-  for (let i = 0; i < args.length; i += 2) {
-    const arg = args[i];
-    const value = args[i + 1];
-
-    switch (arg) {
-      case "--neo4j-uri":
-        if (!value) {
-          console.error("Error: --neo4j-uri requires a value");
-          process.exit(1);
-        }
-        cliConfig.NEO4J_URI = value;
-        break;
-      case "--neo4j-username":
-        if (!value) {
-          console.error("Error: --neo4j-username requires a value");
-          process.exit(1);
-        }
-        cliConfig.NEO4J_USERNAME = value;
-        break;
-      case "--neo4j-password":
-        if (!value) {
-          console.error("Error: --neo4j-password requires a value");
-          process.exit(1);
-        }
-        cliConfig.NEO4J_PASSWORD = value;
-        break;
-      case "--help":
-        console.log(`
+    password: z.string({ required_error: "Password is required" }).min(1, "Password is required"),
+    database: z.string().min(1).optional(),
+    allowedDatabases: z.array(z.string().min(1)).optional(),
+    // Overrides for the top-level limits
+    limits: LimitsSchema.partial().default({}),
+  })
+  .strict()
+  .superRefine((connection, context) => {
+    // Calls without a database argument use the default database, so with an allowlist it
+    // has to be named rather than left to the server's home database
+    if (!connection.allowedDatabases) {
+      return;
+    }
+    if (connection.database === undefined) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "A default database is required when allowedDatabases is set",
+        path: ["database"],
+      });
+      return;
+    }
+    if (!includesDatabase(connection.allowedDatabases, connection.database)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Database '${connection.database}' is not in allowedDatabases (${connection.allowedDatabases.join(", ")})`,
+        path: ["database"],
+      });
+    }
+  });
+
+// Each list restricts one kind of access; an omitted list allows everything of that kind
+const PolicySchema = z
+  .object({
+    tools: z.array(z.string().min(1)).optional(),
+    connections: z.array(z.string().min(1)).optional(),
+    databases: z.array(z.string().min(1)).optional(),
+    labels: z.array(z.string().min(1)).optional(),
+    // Procedure names, or prefixes ending with ".", on top of procedures.allowed
+    procedures: z.array(z.string().min(1)).optional(),
+  })
+  .strict();
+
+const MaskRulesSchema = z.record(z.record(z.enum(["drop", "hash", "mask"])));
+
+// A custom prompt. {{name}} in the template is replaced with the argument of that name
+// and {{schema}} with the structural schema of the default database.
+const PromptTemplateSchema = z
+  .object({
+    name: z.string().regex(/^[A-Za-z0-9_-]+$/, "Prompt names may only contain letters, digits, '_' and '-'"),
+    description: z.string().optional(),
+    arguments: z
+      .array(
+        z
+          .object({
+            name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Argument names must be identifiers"),
+            description: z.string().optional(),
+            required: z.boolean().default(false),
+          })
+          .strict()
+      )
+      .default([]),
+    template: z.string().min(1),
+  })
+  .strict()
+  .superRefine((prompt, context) => {
+    const names = prompt.arguments.map(argument => argument.name);
+    if (names.includes(SCHEMA_PLACEHOLDER)) {
+      context.addIssue({ code: z.ZodIssueCode.custom, message: `'${SCHEMA_PLACEHOLDER}' is reserved for the schema`, path: ["arguments"] });
+    }
+    const unknown = templatePlaceholders(prompt.template).filter(name => name !== SCHEMA_PLACEHOLDER && !names.includes(name));
+    if (unknown.length > 0) {
+      context.addIssue({ code: z.ZodIssueCode.custom, message: `Undeclared arguments: ${unknown.join(", ")}`, path: ["template"] });
+    }
+  });
+
+const ConfigSchema = z
+  .object({
+    connections: z
+      .record(ConnectionSchema)
+      .refine(connections => Object.keys(connections).length > 0, "At least one connection is required"),
+    defaultConnection: z.string(),
+    limits: LimitsSchema.default({}),
+    auth: z
+      .object({
+        // Clients of the http transport must present one of these tokens when any are set
+        tokens: z
+          .array(
+            z
+              .object({
+                name: z.string().min(1),
+                token: z.string().min(16, "Tokens must be at least 16 characters"),
+                policy: PolicySchema.default({}),
+              })
+              .strict()
+          )
+          .default([])
+          .refine(tokens => new Set(tokens.map(token => token.token)).size === tokens.length, "Tokens must be unique"),
+      })
+      .strict()
+      .default({}),
+    server: z
+      .object({
+        transport: z.enum(["stdio", "http"]).default("stdio"),
+        // Only used by the http transport
+        host: z.string().min(1).default("127.0.0.1"),
+        port: z.number().int().min(0).max(65535).default(3000),
+      })
+      .strict()
+      .default({}),
+    procedures: z
+      .object({
+        // Procedure names, or prefixes ending with ".", that CALL may invoke
+        allowed: z.array(z.string().min(1)).default(DEFAULT_ALLOWED_PROCEDURES),
+      })
+      .strict()
+      .default({}),
+    masking: z
+      .object({
+        // Property rules per label and relationship type, e.g. { Person: { email: "hash" } }
+        labels: MaskRulesSchema.default({}),
+        relationshipTypes: MaskRulesSchema.default({}),
+        // Nodes with any of these labels are left out of results
+        hiddenLabels: z.array(z.string().min(1)).default([]),
+        // Mixed into hashes so common values cannot be looked up
+        hashSalt: z.string().default(""),
+      })
+      .strict()
+      .default({}),
+    explain: z
+      .object({
+        // PROFILE executes the query, so neo4j_explain only runs it when allowed
+        allowProfile: z.boolean().default(false),
+      })
+      .strict()
+      .default({}),
+    resources: z
+      .object({
+        // How often to check the default database for schema changes; 0 disables the check
+        schemaPollIntervalMs: z.number().int().min(0).default(60000),
+      })
+      .strict()
+      .default({}),
+    prompts: z
+      .array(PromptTemplateSchema)
+      .default([])
+      .refine(prompts => new Set(prompts.map(prompt => prompt.name)).size === prompts.length, "Prompt names must be unique")
+      .refine(prompts => prompts.every(prompt => !BUILT_IN_PROMPT_NAMES.includes(prompt.name)), `Prompt names must differ from the built-in prompts (${BUILT_IN_PROMPT_NAMES.join(", ")})`),
+    cache: z
+      .object({
+        // How long schema, index, constraint and count metadata is reused; 0 disables caching
+        ttlMs: z.number().int().min(0).default(300000),
+      })
+      .strict()
+      .default({}),
+    audit: z
+      .object({
+        // JSON Lines file with one entry per tool call; auditing is off when unset
+        file: z.string().min(1).optional(),
+        // Size at which the file is rotated, and how many rotated files to keep
+        maxBytes: z.number().int().min(1).default(10485760),
+        maxFiles: z.number().int().min(0).default(5),
+        // Log query parameters as SHA-256 hashes or as values
+        parameters: z.enum(["hash", "values"]).default("hash"),
+        // Parameter names, matched case-insensitively, that are never logged
+        redact: z.array(z.string().min(1)).default(["password", "secret", "token", "apiKey"]),
+      })
+      .strict()
+      .default({}),
+    logging: z
+      .object({
+        level: z.enum(["debug", "info", "warn", "error"]).default("info"),
+        // Queries running at least this long are logged as slow; 0 disables the warning
+        slowQueryMs: z.number().int().min(0).default(5000),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict()
+  .refine(config => config.defaultConnection in config.connections, config => ({
+    message: `Unknown connection '${config.defaultConnection}'`,
+    path: ["defaultConnection"],
+  }))
+  .transform(config => ({
+    ...config,
+    // Resolve each profile's limits against the top-level defaults
+    connections: Object.fromEntries(
+      Object.entries(config.connections).map(([name, connection]) => [
+        name,
+        { ...connection, limits: { ...config.limits, ...connection.limits } },
+      ])
+    ),
+  }));
+
+export type Config = z.output<typeof ConfigSchema>;
+export type ConnectionConfig = Config["connections"][string];
+export type LogLevel = Config["logging"]["level"];
+
+// Name of the profile built from --neo4j-* flags and NEO4J_* environment variables
+const DEFAULT_CONNECTION = "default";
+
+type ValueKind = "string" | "number" | "boolean" | "list";
+
+interface SettingDefinition {
+  flag: string;
+  env: string;
+  kind: ValueKind;
+  // Where the value goes in the config object; connection settings apply to the default profile
+  path: string[];
+  help: string;
+}
+
+const SETTINGS: SettingDefinition[] = [
+  { flag: "--config", env: "NEO4J_MCP_CONFIG", kind: "string", path: [], help: "Path to a JSON or YAML config file" },
+  { flag: "--neo4j-uri", env: "NEO4J_URI", kind: "string", path: ["connections", DEFAULT_CONNECTION, "uri"], help: "Neo4j connection URI (default: bolt://localhost:7687)" },
+  { flag: "--neo4j-username", env: "NEO4J_USERNAME", kind: "string", path: ["connections", DEFAULT_CONNECTION, "username"], help: "Neo4j username (default: neo4j)" },
+  { flag: "--neo4j-password", env: "NEO4J_PASSWORD", kind: "string", path: ["connections", DEFAULT_CONNECTION, "password"], help: "Neo4j password (required)" },
+  { flag: "--neo4j-database", env: "NEO4J_DATABASE", kind: "string", path: ["connections", DEFAULT_CONNECTION, "database"], help: "Default database (default: the server's default database)" },
+  { flag: "--neo4j-allowed-databases", env: "NEO4J_ALLOWED_DATABASES", kind: "list", path: ["connections", DEFAULT_CONNECTION, "allowedDatabases"], help: "Comma-separated list of databases tools may access, including the default database (default: all)" },
+  { flag: "--transport", env: "NEO4J_MCP_TRANSPORT", kind: "string", path: ["server", "transport"], help: "stdio or http (default: stdio)" },
+  { flag: "--host", env: "NEO4J_MCP_HOST", kind: "string", path: ["server", "host"], help: "Address the http transport listens on (default: 127.0.0.1)" },
+  { flag: "--port", env: "NEO4J_MCP_PORT", kind: "number", path: ["server", "port"], help: "Port the http transport listens on (default: 3000)" },
+  { flag: "--default-connection", env: "NEO4J_MCP_DEFAULT_CONNECTION", kind: "string", path: ["defaultConnection"], help: "Connection profile used when a tool call names none" },
+  { flag: "--max-rows", env: "NEO4J_MCP_MAX_ROWS", kind: "number", path: ["limits", "maxRows"], help: "Maximum rows in one neo4j_query page (default: 1000)" },
+  { flag: "--max-bytes", env: "NEO4J_MCP_MAX_BYTES", kind: "number", path: ["limits", "maxBytes"], help: "Maximum serialized bytes of rows in one neo4j_query page (default: 262144)" },
+  { flag: "--max-sample-size", env: "NEO4J_MCP_MAX_SAMPLE_SIZE", kind: "number", path: ["limits", "maxSampleSize"], help: "Maximum samples returned by neo4j_sample_data (default: 50)" },
+  { flag: "--max-traversal-depth", env: "NEO4J_MCP_MAX_TRAVERSAL_DEPTH", kind: "number", path: ["limits", "maxTraversalDepth"], help: "Maximum depth of neo4j_neighborhood and neo4j_shortest_path (default: 4)" },
+  { flag: "--max-traversal-results", env: "NEO4J_MCP_MAX_TRAVERSAL_RESULTS", kind: "number", path: ["limits", "maxTraversalResults"], help: "Maximum nodes in a neighborhood or paths from neo4j_shortest_path (default: 200)" },
+  { flag: "--max-profile-sample-size", env: "NEO4J_MCP_MAX_PROFILE_SAMPLE_SIZE", kind: "number", path: ["limits", "maxProfileSampleSize"], help: "Maximum entities sampled by the property tools' profile mode (default: 1000)" },
+  { flag: "--query-timeout", env: "NEO4J_MCP_QUERY_TIMEOUT_MS", kind: "number", path: ["limits", "queryTimeoutMs"], help: "Transaction timeout in milliseconds, 0 for none (default: 30000)" },
+  { flag: "--connection-timeout", env: "NEO4J_MCP_CONNECTION_TIMEOUT_MS", kind: "number", path: ["limits", "connectionTimeoutMs"], help: "Connection timeout in milliseconds (default: 30000)" },
+  { flag: "--allowed-procedures", env: "NEO4J_MCP_ALLOWED_PROCEDURES", kind: "list", path: ["procedures", "allowed"], help: "Comma-separated procedures or prefixes ending in \".\" that CALL may use" },
+  { flag: "--allow-profile", env: "NEO4J_MCP_ALLOW_PROFILE", kind: "boolean", path: ["explain", "allowProfile"], help: "Let neo4j_explain run PROFILE, which executes the query: true or false (default: false)" },
+  { flag: "--cache-ttl", env: "NEO4J_MCP_CACHE_TTL_MS", kind: "number", path: ["cache", "ttlMs"], help: "Milliseconds to reuse schema, index, constraint and count metadata, 0 to disable (default: 300000)" },
+  { flag: "--schema-poll-interval", env: "NEO4J_MCP_SCHEMA_POLL_INTERVAL_MS", kind: "number", path: ["resources", "schemaPollIntervalMs"], help: "Milliseconds between checks for schema changes, 0 to disable (default: 60000)" },
+  { flag: "--audit-log", env: "NEO4J_MCP_AUDIT_LOG", kind: "string", path: ["audit", "file"], help: "Write a JSON Lines audit entry for every tool call to this file" },
+  { flag: "--audit-max-bytes", env: "NEO4J_MCP_AUDIT_MAX_BYTES", kind: "number", path: ["audit", "maxBytes"], help: "Rotate the audit log at this size (default: 10485760)" },
+  { flag: "--audit-max-files", env: "NEO4J_MCP_AUDIT_MAX_FILES", kind: "number", path: ["audit", "maxFiles"], help: "Rotated audit logs to keep (default: 5)" },
+  { flag: "--audit-parameters", env: "NEO4J_MCP_AUDIT_PARAMETERS", kind: "string", path: ["audit", "parameters"], help: "Log query parameters as hash or values (default: hash)" },
+  { flag: "--audit-redact", env: "NEO4J_MCP_AUDIT_REDACT", kind: "list", path: ["audit", "redact"], help: "Comma-separated parameter names never written to the audit log" },
+  { flag: "--log-level", env: "NEO4J_MCP_LOG_LEVEL", kind: "string", path: ["logging", "level"], help: "debug, info, warn or error (default: info)" },
+  { flag: "--slow-query-ms", env: "NEO4J_MCP_SLOW_QUERY_MS", kind: "number", path: ["logging", "slowQueryMs"], help: "Log queries slower than this many milliseconds, 0 to disable (default: 5000)" },
+];
+
+function printHelp() {
+  const describe = (name: string, help: string) =>
+    name.length < 26 ? `  ${name.padEnd(26)}${help}` : `  ${name}\n  ${"".padEnd(26)}${help}`;
+
+  console.log(`
 Neo4j MCP Server
 
 Usage: neo4j-mcp-readonly [options]
 
 Options:
-  --neo4j-uri       Neo4j connection URI (default: bolt://localhost:7687)
-  --neo4j-username  Neo4j username (default: neo4j)
-  --neo4j-password  Neo4j password (required)
-  --help           Show this help message
+${SETTINGS.map(setting => describe(`${setting.flag} <value>`, setting.help)).join("\n")}
+${describe("--help", "Show this help message")}
 
 Environment Variables:
-  NEO4J_URI         Neo4j connection URI
-  NEO4J_USERNAME    Neo4j username
-  NEO4J_PASSWORD    Neo4j password
+${SETTINGS.map(setting => describe(setting.env, setting.help)).join("\n")}
+
+Settings are merged in this order, later sources winning:
+  built-in defaults < config file < environment variables < command line flags
 
 Example:
   neo4j-mcp-readonly --neo4j-uri bolt://localhost:7687 --neo4j-username neo4j --neo4j-password mypassword
 
 Or use environment variables:
   NEO4J_URI=bolt://localhost:7687 NEO4J_USERNAME=neo4j NEO4J_PASSWORD=mypassword neo4j-mcp-readonly
-        `);
-        process.exit(0);
+  `);
+}
+
+function fail(message: string): never {
+  console.error(`Error: ${message}`);
+  process.exit(1);
+}
+
+// Parses `--flag value` and `--flag=value` pairs. Every option except --help takes a
+// value, so a flag without one is reported instead of swallowing the next flag.
+function parseArgs(args: string[]): Map<SettingDefinition, string> {
+  const values = new Map<SettingDefinition, string>();
+
+  for (let i = 0; i < args.length; i++) {
+    let arg = args[i];
+    let value: string | undefined;
+
+    if (arg === "--help") {
+      printHelp();
+      process.exit(0);
     }
+
+    const equals = arg.indexOf("=");
+    if (arg.startsWith("--") && equals !== -1) {
+      value = arg.slice(equals + 1);
+      arg = arg.slice(0, equals);
+    }
+
+    const setting = SETTINGS.find(candidate => candidate.flag === arg);
+    if (!setting) {
+      fail(`Unknown option ${arg}. Use --help for usage information`);
+    }
+
+    if (value === undefined) {
+      const next = args[i + 1];
+      if (next === undefined || next.startsWith("--")) {
+        fail(`${arg} requires a value`);
+      }
+      value = next;
+      i++;
+    }
+
+    if (value === "") {
+      fail(`${arg} requires a value`);
+    }
+
+    values.set(setting, value);
   }
 
-  // Merge CLI args with environment variables (CLI takes precedence)
-  const env = { ...process.env, ...cliConfig };
+  return values;
+}
+
+function convert(value: string, kind: ValueKind): unknown {
+  switch (kind) {
+    case "number": {
+      // Leave unparseable values as strings so validation reports them with their source
+      const number = Number(value);
+      return value.trim() !== "" && !Number.isNaN(number) ? number : value;
+    }
+    case "boolean": {
+      const normalized = value.trim().toLowerCase();
+      if (normalized === "true" || normalized === "1") {
+        return true;
+      }
+      if (normalized === "false" || normalized === "0") {
+        return false;
+      }
+      return value;
+    }
+    case "list":
+      return value.split(",").map(item => item.trim()).filter(Boolean);
+    default:
+      return value;
+  }
+}
+
+function loadConfigFile(path: string): any {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch (error) {
+    fail(`could not read config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  try {
+    const extension = extname(path).toLowerCase();
+    const parsed = extension === ".yaml" || extension === ".yml" ? YAML.parse(text) : JSON.parse(text);
+    if (parsed === null || parsed === undefined) {
+      return {};
+    }
+    if (typeof parsed !== "object" || Array.isArray(parsed)) {
+      fail(`config file ${path} must contain an object at the top level`);
+    }
+    return parsed;
+  } catch (error) {
+    fail(`could not parse config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function setPath(target: any, path: string[], value: unknown) {
+  let node = target;
+  for (const key of path.slice(0, -1)) {
+    if (typeof node[key] !== "object" || node[key] === null) {
+      node[key] = {};
+    }
+    node = node[key];
+  }
+  node[path[path.length - 1]] = value;
+}
+
+// Get configuration from the config file, environment variables and command line args
+export function getConfig(): Config {
+  const cliValues = parseArgs(process.argv.slice(2));
+
+  // Track where every value came from so validation errors can name the source
+  const sources = new Map<string, string>();
+  const valueOf = (setting: SettingDefinition): { value: string; source: string } | undefined => {
+    const cliValue = cliValues.get(setting);
+    if (cliValue !== undefined) {
+      return { value: cliValue, source: setting.flag };
+    }
+    const envValue = process.env[setting.env];
+    if (envValue) {
+      return { value: envValue, source: `environment variable ${setting.env}` };
+    }
+    return undefined;
+  };
+
+  const configSetting = SETTINGS.find(setting => setting.flag === "--config")!;
+  const configPath = valueOf(configSetting);
+  const raw: any = configPath ? loadConfigFile(configPath.value.trim()) : {};
+  const fileSource = configPath ? `config file ${configPath.value.trim()}` : undefined;
+
+  for (const setting of SETTINGS.filter(setting => setting !== configSetting)) {
+    const found = valueOf(setting);
+    if (found) {
+      setPath(raw, setting.path, convert(found.value, setting.kind));
+      sources.set(setting.path.join("."), found.source);
+    }
+  }
+
+  // Without any profiles, the flags and environment describe the only connection
+  if (!raw.connections || Object.keys(raw.connections).length === 0) {
+    setPath(raw, ["connections", DEFAULT_CONNECTION], {});
+  }
+
+  if (raw.defaultConnection === undefined && raw.connections && typeof raw.connections === "object") {
+    const names = Object.keys(raw.connections);
+    raw.defaultConnection = names.includes(DEFAULT_CONNECTION) ? DEFAULT_CONNECTION : names[0];
+  }
+
+  const sourceOf = (path: (string | number)[]): string | undefined => {
+    for (let length = path.length; length > 0; length--) {
+      const source = sources.get(path.slice(0, length).join("."));
+      if (source) {
+        return source;
+      }
+    }
+    return fileSource;
+  };
 
   try {
-    return ConfigSchema.parse({
-      neo4j: {
-        uri: env.NEO4J_URI || "bolt://localhost:7687",
-        username: env.NEO4J_USERNAME || "neo4j",
-        password: env.NEO4J_PASSWORD,
-      },
-    });
+    return ConfigSchema.parse(raw);
   } catch (error) {
     if (error instanceof z.ZodError) {
       console.error("Configuration error:");
       error.errors.forEach(err => {
-        console.error(`  ${err.path.join('.')}: ${err.message}`);
+        const source = sourceOf(err.path);
+        console.error(`  ${err.path.join('.')}: ${err.message}${source ? ` (from ${source})` : ""}`);
       });
       console.error("\nUse --help for usage information");
       process.exit(1);
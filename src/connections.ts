@@ -0,0 +1,189 @@
+import neo4j, { Driver } from "neo4j-driver";
+import { ConnectionConfig } from "./config.js";
+import { logger } from "./logger.js";
+
+// Where a tool call runs: a named connection profile and, optionally, a database on it
+export interface QueryTarget {
+  connection: string;
+  database?: string;
+}
+
+// What SHOW PROCEDURES reports about the procedures of a server
+export interface ProcedureCatalog {
+  // Mode of each procedure, such as READ or WRITE
+  modes: Map<string, string>;
+  // Lower-cased names of the procedures with an output that can hold nodes: a node, a
+  // path, a map or a value of any type
+  nodeYielding: Set<string>;
+}
+
+// Whether the output columns of a signature can hold nodes, as in
+// "db.index.fulltext.queryNodes(indexName :: STRING, ...) :: (node :: NODE, score :: FLOAT)"
+function yieldsNodes(signature: string): boolean {
+  const outputs = signature.slice(signature.lastIndexOf(") :: ") + 1);
+  return /\b(NODE|PATH|MAP|ANY)\b/i.test(outputs);
+}
+
+export interface ConnectionHealth {
+  name: string;
+  uri: string;
+  username: string;
+  database: string | null;
+  isDefault: boolean;
+  healthy: boolean;
+  serverAgent?: string;
+  serverAddress?: string;
+  error?: string;
+}
+
+// Owns one driver per connection profile. Drivers are created on first use, so a
+// profile that is never queried never opens a connection.
+export class ConnectionManager {
+  private drivers = new Map<string, Promise<Driver>>();
+  private procedures = new Map<string, Promise<ProcedureCatalog | undefined>>();
+
+  constructor(
+    private readonly connections: Record<string, ConnectionConfig>,
+    private readonly defaultConnection: string
+  ) {}
+
+  get names(): string[] {
+    return Object.keys(this.connections);
+  }
+
+  // Looks up a profile by name, falling back to the default profile
+  getProfile(name?: string): { name: string; profile: ConnectionConfig } {
+    const resolved = name ?? this.defaultConnection;
+    const profile = this.connections[resolved];
+    if (!profile) {
+      throw new Error(`Unknown connection '${resolved}'. Available connections: ${this.names.join(", ")}`);
+    }
+    return { name: resolved, profile };
+  }
+
+  getDriver(name: string): Promise<Driver> {
+    // Cache the pending connection so concurrent first calls share one driver
+    let driver = this.drivers.get(name);
+    if (!driver) {
+      driver = this.connect(name);
+      this.drivers.set(name, driver);
+      driver.catch(() => this.drivers.delete(name));
+    }
+    return driver;
+  }
+
+  // The procedures of the connection's server, read once with SHOW PROCEDURES. Undefined
+  // when the server cannot list them (before Neo4j 4.3, or without the privilege); the
+  // validator then relies on procedures.allowed alone. Transient failures reject and are
+  // not cached, so the next call reads the procedures again.
+  getProcedures(name: string): Promise<ProcedureCatalog | undefined> {
+    let procedures = this.procedures.get(name);
+    if (!procedures) {
+      procedures = this.loadProcedures(name);
+      this.procedures.set(name, procedures);
+      // Retry once the connection works again
+      procedures.catch(() => this.procedures.delete(name));
+    }
+    return procedures;
+  }
+
+  async getProcedureModes(name: string): Promise<Map<string, string> | undefined> {
+    return (await this.getProcedures(name))?.modes;
+  }
+
+  private async loadProcedures(name: string): Promise<ProcedureCatalog | undefined> {
+    const { profile } = this.getProfile(name);
+    const driver = await this.getDriver(name);
+    const session = driver.session({ defaultAccessMode: neo4j.session.READ, database: profile.database });
+    try {
+      const result = await session.run("SHOW PROCEDURES YIELD name, mode, signature");
+      const catalog: ProcedureCatalog = { modes: new Map(), nodeYielding: new Set() };
+      for (const record of result.records) {
+        catalog.modes.set(record.get("name"), record.get("mode"));
+        if (yieldsNodes(record.get("signature"))) {
+          catalog.nodeYielding.add(record.get("name").toLowerCase());
+        }
+      }
+      logger.debug(`Loaded the modes of ${catalog.modes.size} procedures (${name})`);
+      return catalog;
+    } catch (error) {
+      if (neo4j.isRetriableError(error)) {
+        logger.warn(
+          `Could not list procedures with SHOW PROCEDURES (${name}); trying again on the next query:`,
+          error instanceof Error ? error.message : error
+        );
+        throw error;
+      }
+      logger.warn(
+        `Could not list procedures with SHOW PROCEDURES (${name}); CALL is only checked against procedures.allowed:`,
+        error instanceof Error ? error.message : error
+      );
+      return undefined;
+    } finally {
+      await session.close();
+    }
+  }
+
+  private async connect(name: string): Promise<Driver> {
+    const { profile } = this.getProfile(name);
+    const driver = neo4j.driver(
+      profile.uri,
+      neo4j.auth.basic(profile.username, profile.password),
+      {
+        connectionTimeout: profile.limits.connectionTimeoutMs,
+      }
+    );
+
+    try {
+      // Test the connection
+      const session = driver.session({ defaultAccessMode: neo4j.session.READ, database: profile.database });
+      await session.run("RETURN 1");
+      await session.close();
+
+      logger.event("info", `Connected to Neo4j database (${name})`, { event: "connection_established", connection: name });
+      return driver;
+    } catch (error) {
+      logger.event("error", `Failed to connect to Neo4j (${name})`, {
+        event: "connection_failed",
+        connection: name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await driver.close();
+      throw error;
+    }
+  }
+
+  async checkHealth(name: string): Promise<ConnectionHealth> {
+    const { profile } = this.getProfile(name);
+    const health: ConnectionHealth = {
+      name,
+      uri: profile.uri,
+      username: profile.username,
+      database: profile.database ?? null,
+      isDefault: name === this.defaultConnection,
+      healthy: false,
+    };
+
+    try {
+      const driver = await this.getDriver(name);
+      const serverInfo = await driver.getServerInfo();
+      health.healthy = true;
+      health.serverAgent = serverInfo.agent;
+      health.serverAddress = serverInfo.address;
+    } catch (error) {
+      health.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return health;
+  }
+
+  async closeAll() {
+    const pending = [...this.drivers.values()];
+    this.drivers.clear();
+    this.procedures.clear();
+    const drivers = await Promise.allSettled(pending);
+    await Promise.all(
+      drivers.map(result => (result.status === "fulfilled" ? result.value.close() : undefined))
+    );
+  }
+}
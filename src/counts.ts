@@ -0,0 +1,137 @@
+import neo4j from "neo4j-driver";
+import { Identifier, quoteIdentifier } from "./cypher/identifiers.js";
+import { isAbortError } from "./errors.js";
+import { logger } from "./logger.js";
+import { RunQuery } from "./schema.js";
+
+// Every count here comes from Neo4j's count store, which keeps exact totals per label,
+// per relationship type and per type with one labeled end. Patterns it cannot answer
+// are estimated from the ones it can, and marked as such.
+export interface Count {
+  count: number;
+  exact: boolean;
+  source: "count store" | "apoc.meta.stats";
+  query: string;
+  note?: string;
+}
+
+export interface CountStatistics {
+  nodeCount: number;
+  relationshipCount: number;
+  // Nodes per label; a node with several labels is counted for each of them
+  labels: Record<string, number>;
+  relationshipTypes: Record<string, number>;
+  source: Count["source"];
+  query: string;
+}
+
+export interface RelationshipFilter {
+  type?: Identifier;
+  startLabel?: Identifier;
+  endLabel?: Identifier;
+}
+
+function toNumber(value: unknown): number {
+  return neo4j.integer.toNumber(value as number);
+}
+
+export async function countNodes(run: RunQuery, label?: Identifier): Promise<Count> {
+  const query = label ? `MATCH (n:${label.cypher}) RETURN count(n) AS count` : "MATCH (n) RETURN count(n) AS count";
+  const [record] = await run(query);
+  return { count: toNumber(record.get("count")), exact: true, source: "count store", query };
+}
+
+// Relationship patterns are directed: an undirected pattern matches every relationship
+// once from each end
+export async function countRelationships(run: RunQuery, filter: RelationshipFilter): Promise<Count> {
+  const type = filter.type ? `:${filter.type.cypher}` : "";
+  const start = filter.startLabel ? `:${filter.startLabel.cypher}` : "";
+  const end = filter.endLabel ? `:${filter.endLabel.cypher}` : "";
+
+  if (!filter.startLabel || !filter.endLabel) {
+    const query = `MATCH (${start})-[r${type}]->(${end}) RETURN count(r) AS count`;
+    const [record] = await run(query);
+    return { count: toNumber(record.get("count")), exact: true, source: "count store", query };
+  }
+
+  // The count store only knows one labeled end. Counting both ends exactly would scan
+  // the relationships, so the smaller of the two one-ended counts is reported instead.
+  const query = [
+    `MATCH (${start})-[r${type}]->() RETURN count(r) AS count`,
+    `MATCH ()-[r${type}]->(${end}) RETURN count(r) AS count`,
+  ].join("\nUNION ALL\n");
+  const records = await run(query);
+  return {
+    count: Math.min(...records.map(record => toNumber(record.get("count")))),
+    exact: false,
+    source: "count store",
+    query,
+    note: "Upper bound: the smaller of the relationships leaving a start-labeled node and those entering an end-labeled node",
+  };
+}
+
+// Totals with per-label and per-type breakdowns, from apoc.meta.stats when it is
+// installed and otherwise from one count store query per label and type
+export async function readCountStatistics(run: RunQuery): Promise<CountStatistics> {
+  try {
+    const query = "CALL apoc.meta.stats() YIELD nodeCount, relCount, labels, relTypesCount RETURN nodeCount, relCount, labels, relTypesCount";
+    const [record] = await run(query);
+    const numbers = (counts: Record<string, unknown>) =>
+      Object.fromEntries(Object.entries(counts ?? {}).map(([name, count]) => [name, toNumber(count)]));
+    return {
+      nodeCount: toNumber(record.get("nodeCount")),
+      relationshipCount: toNumber(record.get("relCount")),
+      labels: numbers(record.get("labels")),
+      relationshipTypes: numbers(record.get("relTypesCount")),
+      source: "apoc.meta.stats",
+      query,
+    };
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    logger.debug("apoc.meta.stats unavailable, reading the count store:", error);
+  }
+
+  const [labelRecords, typeRecords] = await Promise.all([
+    run("CALL db.labels() YIELD label RETURN label ORDER BY label"),
+    run("CALL db.relationshipTypes() YIELD relationshipType RETURN relationshipType ORDER BY relationshipType"),
+  ]);
+  const labels: string[] = labelRecords.map(record => record.get("label"));
+  const types: string[] = typeRecords.map(record => record.get("relationshipType"));
+
+  const query = [
+    `MATCH (n) RETURN "nodes" AS kind, 0 AS i, count(n) AS count`,
+    `MATCH ()-[r]->() RETURN "relationships" AS kind, 0 AS i, count(r) AS count`,
+    ...labels.map((label, i) => `MATCH (n:${quoteIdentifier(label)}) RETURN "label" AS kind, ${i} AS i, count(n) AS count`),
+    ...types.map((type, i) => `MATCH ()-[r:${quoteIdentifier(type)}]->() RETURN "type" AS kind, ${i} AS i, count(r) AS count`),
+  ].join("\nUNION ALL\n");
+
+  const statistics: CountStatistics = {
+    nodeCount: 0,
+    relationshipCount: 0,
+    labels: {},
+    relationshipTypes: {},
+    source: "count store",
+    query,
+  };
+  for (const record of await run(query)) {
+    const i = toNumber(record.get("i"));
+    const count = toNumber(record.get("count"));
+    switch (record.get("kind")) {
+      case "nodes":
+        statistics.nodeCount = count;
+        break;
+      case "relationships":
+        statistics.relationshipCount = count;
+        break;
+      case "label":
+        statistics.labels[labels[i]] = count;
+        break;
+      case "type":
+        statistics.relationshipTypes[types[i]] = count;
+        break;
+    }
+  }
+  return statistics;
+}
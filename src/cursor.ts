@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+const CURSOR_VERSION = 1;
+
+const CursorSchema = z.object({
+  v: z.literal(CURSOR_VERSION),
+  query: z.string(),
+  parameters: z.record(z.any()),
+  connection: z.string(),
+  database: z.string().optional(),
+  offset: z.number().int().min(0),
+  pageSize: z.number().int().min(1),
+});
+
+// Everything needed to re-run a query and continue where the previous page ended.
+// The query is validated again when the cursor is used, so a tampered cursor cannot
+// do anything a direct neo4j_query call could not.
+export type QueryCursor = Omit<z.infer<typeof CursorSchema>, "v">;
+
+export function encodeCursor(cursor: QueryCursor): string {
+  return Buffer.from(JSON.stringify({ v: CURSOR_VERSION, ...cursor }), "utf8").toString("base64url");
+}
+
+export function decodeCursor(token: string): QueryCursor {
+  try {
+    const { v, ...cursor } = CursorSchema.parse(JSON.parse(Buffer.from(token, "base64url").toString("utf8")));
+    return cursor;
+  } catch {
+    throw new Error("Invalid cursor. Pass the nextCursor value from a previous neo4j_query response unchanged.");
+  }
+}
@@ -0,0 +1,84 @@
+// Labels and relationship types cannot be passed as query parameters, so tools that
+// take them splice them into Cypher. Every such name goes through this module.
+
+// Index names are passed as parameters, but are checked and suggested the same way
+export type IdentifierKind = "label" | "relationship type" | "full-text index" | "vector index";
+
+// Names may be given bare (`My Label`) or already quoted (`` `My Label` ``)
+export function parseIdentifier(kind: IdentifierKind, input: string): string {
+  const trimmed = input.trim();
+  const name = trimmed.length >= 2 && trimmed.startsWith("`") && trimmed.endsWith("`")
+    ? trimmed.slice(1, -1).replace(/``/g, "`")
+    : trimmed;
+
+  if (name.length === 0) {
+    throw new Error(`The ${kind} name must not be empty`);
+  }
+  if (name.includes("\u0000")) {
+    throw new Error(`The ${kind} name must not contain NUL characters`);
+  }
+  return name;
+}
+
+// Quotes a name so any character, including spaces, unicode and backticks, stays
+// inside the identifier
+export function quoteIdentifier(name: string): string {
+  return `\`${name.replace(/`/g, "``")}\``;
+}
+
+// Quotes only names that need it, for readable output such as schema patterns
+export function displayIdentifier(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : quoteIdentifier(name);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Known names closest to `name`, ignoring case, best first
+export function suggestIdentifiers(name: string, known: string[], limit = 3): string[] {
+  const wanted = name.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(wanted.length / 3));
+
+  return known
+    .map(candidate => {
+      const lower = candidate.toLowerCase();
+      const contains = wanted.length >= 3 && (lower.includes(wanted) || wanted.includes(lower));
+      const distance = lower === wanted ? 0 : contains ? 1 : editDistance(wanted, lower);
+      return { candidate, distance };
+    })
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+export interface Identifier {
+  name: string;
+  // The name quoted for splicing into Cypher
+  cypher: string;
+}
+
+// Resolves a name that must exist in the database, or fails naming close matches
+export function requireKnownIdentifier(kind: IdentifierKind, input: string, known: string[]): Identifier {
+  const name = parseIdentifier(kind, input);
+  if (known.includes(name)) {
+    return { name, cypher: quoteIdentifier(name) };
+  }
+
+  const suggestions = suggestIdentifiers(name, known);
+  const hint = suggestions.length > 0 ? ` Did you mean ${suggestions.map(s => `'${s}'`).join(", ")}?` : "";
+  throw new Error(`Unknown ${kind} '${name}'.${hint}`);
+}
@@ -0,0 +1,177 @@
+export type TokenType =
+  | "identifier"
+  | "quotedIdentifier"
+  | "string"
+  | "number"
+  | "parameter"
+  | "symbol";
+
+export interface Token {
+  type: TokenType;
+  // Raw source text of the token, including quotes for strings and backticks
+  text: string;
+  // Unquoted / unescaped value (same as text for symbols and identifiers)
+  value: string;
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export class CypherSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly offset: number,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = "CypherSyntaxError";
+  }
+}
+
+// Longest symbols first so that "<>" wins over "<"
+const MULTI_CHAR_SYMBOLS = ["<>", "<=", ">=", "=~", "->", "<-", "..", "+=", "::", "||", "!="];
+
+const IDENTIFIER_START = /[\p{L}_]/u;
+const IDENTIFIER_PART = /[\p{L}\p{N}_]/u;
+const NUMBER = /^(?:0x[0-9a-f]+|0o[0-7]+|\d[\d_]*(?:\.\d[\d_]*)?(?:e[+-]?\d+)?)/i;
+
+// Splits a Cypher query into tokens. Whitespace and comments are dropped, while
+// strings, backtick-quoted identifiers and parameters are kept as single tokens so
+// that keywords hidden inside them are never mistaken for clauses.
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const fail = (message: string, at: number): never => {
+    const before = source.slice(0, at);
+    const atLine = before.split("\n").length;
+    const atColumn = at - (before.lastIndexOf("\n") + 1) + 1;
+    throw new CypherSyntaxError(message, at, atLine, atColumn);
+  };
+
+  const advance = (to: number) => {
+    for (let i = pos; i < to; i++) {
+      if (source[i] === "\n") {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+    pos = to;
+  };
+
+  const push = (type: TokenType, end: number, value: string) => {
+    tokens.push({
+      type,
+      text: source.slice(pos, end),
+      value,
+      offset: pos,
+      line,
+      column: pos - lineStart + 1,
+    });
+    advance(end);
+  };
+
+  // Reads a quoted section starting at `start` and returns the index after the closing quote
+  const readQuoted = (start: number, quote: string, what: string): { end: number; value: string } => {
+    let value = "";
+    let i = start + 1;
+    while (i < source.length) {
+      const ch = source[i];
+      if (quote !== "`" && ch === "\\") {
+        value += source.slice(i, i + 2);
+        i += 2;
+        continue;
+      }
+      if (ch === quote) {
+        // Backtick identifiers escape a backtick by doubling it
+        if (quote === "`" && source[i + 1] === "`") {
+          value += "`";
+          i += 2;
+          continue;
+        }
+        return { end: i + 1, value };
+      }
+      value += ch;
+      i++;
+    }
+    return fail(`Unterminated ${what}`, start);
+  };
+
+  while (pos < source.length) {
+    const ch = source[pos];
+    const next = source[pos + 1];
+
+    if (/\s/.test(ch)) {
+      advance(pos + 1);
+      continue;
+    }
+
+    if (ch === "/" && next === "/") {
+      const end = source.indexOf("\n", pos);
+      advance(end === -1 ? source.length : end);
+      continue;
+    }
+
+    if (ch === "/" && next === "*") {
+      const end = source.indexOf("*/", pos + 2);
+      if (end === -1) {
+        fail("Unterminated block comment", pos);
+      }
+      advance(end + 2);
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const { end, value } = readQuoted(pos, ch, "string literal");
+      push("string", end, value);
+      continue;
+    }
+
+    if (ch === "`") {
+      const { end, value } = readQuoted(pos, "`", "quoted identifier");
+      push("quotedIdentifier", end, value);
+      continue;
+    }
+
+    if (ch === "$") {
+      if (next === "`") {
+        const { end, value } = readQuoted(pos + 1, "`", "quoted parameter");
+        push("parameter", end, value);
+        continue;
+      }
+      let end = pos + 1;
+      while (end < source.length && IDENTIFIER_PART.test(source[end])) {
+        end++;
+      }
+      if (end === pos + 1) {
+        fail("Expected a parameter name after '$'", pos);
+      }
+      push("parameter", end, source.slice(pos + 1, end));
+      continue;
+    }
+
+    if (/\d/.test(ch)) {
+      const match = source.slice(pos).match(NUMBER);
+      const end = pos + (match ? match[0].length : 1);
+      push("number", end, source.slice(pos, end));
+      continue;
+    }
+
+    if (IDENTIFIER_START.test(ch)) {
+      let end = pos + 1;
+      while (end < source.length && IDENTIFIER_PART.test(source[end])) {
+        end++;
+      }
+      push("identifier", end, source.slice(pos, end));
+      continue;
+    }
+
+    const symbol = MULTI_CHAR_SYMBOLS.find(s => source.startsWith(s, pos)) ?? ch;
+    push("symbol", pos + symbol.length, symbol);
+  }
+
+  return tokens;
+}
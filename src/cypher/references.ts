@@ -0,0 +1,348 @@
+import { Token } from "./lexer.js";
+import { parseClauses } from "./validator.js";
+
+// Static views of which labels and properties a query names. They only see names
+// spelled out in the query text, not ones reached through parameters or dynamic access.
+
+function isName(token: Token | undefined): boolean {
+  return token !== undefined && (token.type === "identifier" || token.type === "quotedIdentifier");
+}
+
+function isSymbolToken(token: Token | undefined, ...symbols: string[]): boolean {
+  return token !== undefined && token.type === "symbol" && symbols.includes(token.value);
+}
+
+// Node labels named in a query: after ":" inside node patterns or in WHERE predicates
+// such as `n:Label`, including label expressions like `:A|B` and `:!A`. Names after ":"
+// in relationship patterns are types and names in maps are values, so both are skipped.
+export function referencedLabels(tokens: Token[]): string[] {
+  const labels = new Set<string>();
+  const brackets: string[] = [];
+  // Expecting a label name, or having just read one that an operator may continue
+  let expectLabel = false;
+  let afterLabel = false;
+
+  for (const token of tokens) {
+    if (token.type === "identifier" || token.type === "quotedIdentifier") {
+      if (expectLabel) {
+        labels.add(token.value);
+      }
+      afterLabel = expectLabel;
+      expectLabel = false;
+      continue;
+    }
+
+    const symbol = token.type === "symbol" ? token.value : "";
+    const continues: boolean = (afterLabel && (symbol === "|" || symbol === "&")) || (expectLabel && symbol === "!");
+    expectLabel = continues;
+    afterLabel = false;
+
+    if (symbol === "(" || symbol === "[" || symbol === "{") {
+      brackets.push(symbol);
+    } else if (symbol === ")" || symbol === "]" || symbol === "}") {
+      brackets.pop();
+    } else if (symbol === ":") {
+      const innermost = brackets[brackets.length - 1];
+      expectLabel = innermost === undefined || innermost === "(";
+    }
+  }
+
+  return [...labels];
+}
+
+// Property keys a query reads directly, as in `n.email` or the map projection `n {.email}`.
+// `.*` projections and properties() return every property and are reported as "*".
+export function referencedProperties(tokens: Token[]): string[] {
+  const properties = new Set<string>();
+
+  tokens.forEach((token, i) => {
+    const next = tokens[i + 1];
+    if (token.type === "symbol" && token.value === "." && next) {
+      if (isName(next)) {
+        properties.add(next.value);
+      } else if (next.type === "symbol" && next.value === "*") {
+        properties.add("*");
+      }
+    }
+    // `properties`(n) calls the same function
+    if (isName(token) && token.value.toLowerCase() === "properties" && isSymbolToken(next, "(")) {
+      properties.add("*");
+    }
+  });
+
+  return [...properties];
+}
+
+// Keywords after which "[" opens a list literal or comprehension rather than a subscript
+const EXPRESSION_KEYWORDS = new Set([
+  "RETURN",
+  "WITH",
+  "UNWIND",
+  "WHERE",
+  "IN",
+  "AND",
+  "OR",
+  "XOR",
+  "NOT",
+  "CASE",
+  "WHEN",
+  "THEN",
+  "ELSE",
+  "DISTINCT",
+  "BY",
+  "CONTAINS",
+  "IS",
+  "SKIP",
+  "LIMIT",
+  "OFFSET",
+  "YIELD",
+]);
+
+function isSubscriptStart(tokens: Token[], index: number): boolean {
+  const previous = tokens[index - 1];
+  if (!previous) {
+    return false;
+  }
+  if (previous.type === "identifier") {
+    return !EXPRESSION_KEYWORDS.has(previous.value.toUpperCase());
+  }
+  if (previous.type === "symbol") {
+    return previous.value === ")" || previous.value === "]" || previous.value === "}";
+  }
+  return previous.type === "quotedIdentifier" || previous.type === "parameter";
+}
+
+// The first subscript with a computed key, as in `n['email']`, `n[key]` or `map[$name]`,
+// which reads a property or map entry by a name the other views cannot see. List indexes
+// and slices with integer literals, such as `list[0]`, `list[-1]` and `list[..10]`, are fine.
+export function computedSubscript(tokens: Token[]): Token | undefined {
+  for (let i = 0; i < tokens.length; i++) {
+    if (!(tokens[i].type === "symbol" && tokens[i].value === "[") || !isSubscriptStart(tokens, i)) {
+      continue;
+    }
+
+    for (let j = i + 1; j < tokens.length; j++) {
+      const token = tokens[j];
+      if (token.type === "symbol" && token.value === "]") {
+        break;
+      }
+      const integerPart = token.type === "number" || (token.type === "symbol" && ["-", "+", ".."].includes(token.value));
+      if (!integerPart) {
+        return tokens[i];
+      }
+    }
+  }
+  return undefined;
+}
+
+// Qualified names of the functions a query calls, as in `apoc.convert.toJson(n)`. Quoted
+// segments are joined like plain ones, so `` `apoc`.convert.toJson(n) `` and
+// `` `apoc.convert.toJson`(n) `` both name apoc.convert.toJson.
+export function calledFunctions(tokens: Token[]): string[] {
+  return [...new Set(functionCalls(tokens).map(call => call.name))];
+}
+
+function functionCalls(tokens: Token[]): { name: string; token: Token }[] {
+  const calls: { name: string; token: Token }[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isName(tokens[i]) || isSymbolToken(tokens[i - 1], ".")) {
+      continue;
+    }
+
+    const parts = [tokens[i].value];
+    let j = i + 1;
+    while (isSymbolToken(tokens[j], ".") && isName(tokens[j + 1])) {
+      parts.push(tokens[j + 1].value);
+      j += 2;
+    }
+    if (isSymbolToken(tokens[j], "(")) {
+      calls.push({ name: parts.join("."), token: tokens[i] });
+    }
+  }
+
+  return calls;
+}
+
+// Words before "(" that start a pattern rather than call a function: clause keywords,
+// operators and path selectors such as `ANY SHORTEST`
+const PATTERN_KEYWORDS = new Set([
+  "MATCH",
+  "WHERE",
+  "AND",
+  "OR",
+  "XOR",
+  "NOT",
+  "RETURN",
+  "WITH",
+  "CASE",
+  "WHEN",
+  "THEN",
+  "ELSE",
+  "DISTINCT",
+  "ANY",
+  "ALL",
+  "SHORTEST",
+  "PATH",
+  "PATHS",
+  "GROUPS",
+  "REPEATABLE",
+  "DIFFERENT",
+  "ELEMENTS",
+  "RELATIONSHIPS",
+]);
+
+// Clauses after which earlier variables may be out of scope, or bound anew
+const SCOPE_CLAUSES = new Set(["WITH", "UNION", "UNION ALL", "UNION DISTINCT"]);
+
+// Node patterns that can match nodes of any label: `()`, `({name: $name})`, and `(n)` or
+// `(n {...})` unless an earlier MATCH pattern of the same query part, since the last
+// WITH or UNION, gives `n` a label. Labels in WHERE predicates do not count, as
+// `WHERE n:Label OR true` matches nodes of any label. Returns the opening "(" of each.
+function unlabelledNodePatterns(tokens: Token[]): Token[] {
+  const clauses = parseClauses(tokens);
+  const found: Token[] = [];
+  let labelled = new Set<string>();
+  // Innermost clause at each nesting depth, so that a WHERE inside a node pattern ends
+  // at its closing parenthesis
+  const clauseAt: (string | undefined)[] = [];
+  const brackets: string[] = [];
+  let nextClause = 0;
+
+  tokens.forEach((token, i) => {
+    const clause = clauses[nextClause];
+    if (clause?.offset === token.offset) {
+      clauseAt[brackets.length] = clause.keyword;
+      clauseAt.length = brackets.length + 1;
+      if (SCOPE_CLAUSES.has(clause.keyword)) {
+        labelled = new Set();
+      }
+      nextClause++;
+    }
+
+    if (isSymbolToken(token, ")", "]", "}")) {
+      brackets.pop();
+      clauseAt.length = Math.min(clauseAt.length, brackets.length + 1);
+      return;
+    }
+    if (!isSymbolToken(token, "(")) {
+      if (isSymbolToken(token, "[", "{")) {
+        brackets.push(token.value);
+      }
+      return;
+    }
+    brackets.push(token.value);
+
+    const previous = tokens[i - 1];
+    // Function calls, `CALL (x) {...}` and `USE graph.byName(...)`
+    if (previous?.type === "quotedIdentifier" || (previous?.type === "identifier" && !PATTERN_KEYWORDS.has(previous.value.toUpperCase()))) {
+      return;
+    }
+
+    const first = tokens[i + 1];
+    const second = tokens[i + 2];
+    if (isSymbolToken(first, ")", "{")) {
+      found.push(token);
+    } else if (isName(first) && isSymbolToken(second, ":")) {
+      const governing = [...clauseAt].reverse().find(keyword => keyword !== undefined);
+      if (governing === "MATCH" || governing === "OPTIONAL MATCH") {
+        labelled.add(first.value);
+      }
+    } else if (
+      isName(first) &&
+      !labelled.has(first.value) &&
+      (isSymbolToken(second, ")", "{") || (second?.type === "identifier" && second.value.toUpperCase() === "WHERE"))
+    ) {
+      found.push(token);
+    }
+  });
+  return found;
+}
+
+// Label expressions that match nodes by what they are not, `:!Label`, or by any label,
+// `:%`. Returns the operator token of each.
+function openLabelExpressions(tokens: Token[]): Token[] {
+  const brackets: string[] = [];
+  const found: Token[] = [];
+  tokens.forEach((token, i) => {
+    if (isSymbolToken(token, "(", "[", "{")) {
+      brackets.push(token.value);
+    } else if (isSymbolToken(token, ")", "]", "}")) {
+      brackets.pop();
+    } else if (brackets[brackets.length - 1] !== "[") {
+      // "!=" is its own token, so a lone "!" only negates a label or type
+      const wildcard = isSymbolToken(token, "%") && isSymbolToken(tokens[i - 1], ":", "|", "&", "!");
+      if (isSymbolToken(token, "!") || wildcard) {
+        found.push(token);
+      }
+    }
+  });
+  return found;
+}
+
+// Variable-length relationships, `-[*]->` and `-[:KNOWS*1..3]->`, and quantified ones,
+// `-[:KNOWS]->{1,3}` and `-->+`, whose inner nodes no pattern labels. Returns the
+// quantifier of each.
+function variableLengthRelationships(tokens: Token[]): Token[] {
+  // Index of each open bracket
+  const brackets: number[] = [];
+  const found: Token[] = [];
+  tokens.forEach((token, i) => {
+    if (isSymbolToken(token, "(", "[", "{")) {
+      brackets.push(i);
+    } else if (isSymbolToken(token, ")", "]", "}")) {
+      brackets.pop();
+    }
+
+    const open = brackets[brackets.length - 1];
+    const inRelationship = open !== undefined && tokens[open].value === "[" && isSymbolToken(tokens[open - 1], "-", "<-");
+    if (inRelationship && isSymbolToken(token, "*")) {
+      found.push(token);
+    }
+    // A quantifier right after the arrow that ends a relationship
+    const previous = tokens[i - 1];
+    const arrowEnd = isSymbolToken(previous, "->") || (isSymbolToken(previous, "-") && isSymbolToken(tokens[i - 2], "]", "-", "<-"));
+    if (arrowEnd && isSymbolToken(token, "{", "+", "*")) {
+      found.push(token);
+    }
+  });
+  return found;
+}
+
+// Functions that return nodes of paths and relationships, which no pattern labels
+const NODE_FUNCTIONS = new Set(["nodes", "startnode", "endnode"]);
+const NODE_FUNCTION_PREFIXES = ["apoc.path.", "apoc.node.", "apoc.nodes.", "apoc.rel.", "apoc.cypher."];
+
+// Why a query can read values of nodes without matching their labels: a node pattern
+// without a label, a negated or wildcard label expression, a variable-length
+// relationship, a function that returns nodes of paths or relationships, or a procedure
+// that can yield nodes. `nodeProcedures` lists the lower-cased procedures of the server
+// whose outputs can hold nodes; without it every procedure is assumed to.
+export function unlabelledNodeAccess(tokens: Token[], nodeProcedures?: ReadonlySet<string>): string | undefined {
+  const position = (token: Token) => `line ${token.line}, column ${token.column}`;
+
+  const [pattern] = unlabelledNodePatterns(tokens);
+  if (pattern) {
+    return `the node pattern at ${position(pattern)} has no label`;
+  }
+  const [open] = openLabelExpressions(tokens);
+  if (open) {
+    return `'${open.value}' at ${position(open)} matches nodes by labels they do not have`;
+  }
+  const [quantifier] = variableLengthRelationships(tokens);
+  if (quantifier) {
+    return `the variable-length relationship at ${position(quantifier)} passes through nodes of any label`;
+  }
+  for (const clause of parseClauses(tokens)) {
+    if (clause.procedure && (!nodeProcedures || nodeProcedures.has(clause.procedure.toLowerCase()))) {
+      return `CALL ${clause.procedure} at line ${clause.line}, column ${clause.column} can yield nodes of any label`;
+    }
+  }
+  for (const call of functionCalls(tokens)) {
+    const name = call.name.toLowerCase();
+    if (NODE_FUNCTIONS.has(name) || NODE_FUNCTION_PREFIXES.some(prefix => name.startsWith(prefix))) {
+      return `${call.name}() at ${position(call.token)} returns nodes of any label`;
+    }
+  }
+  return undefined;
+}
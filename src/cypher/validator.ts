@@ -0,0 +1,397 @@
+import { CypherSyntaxError, Token, tokenize } from "./lexer.js";
+
+export interface CypherClause {
+  // Normalized upper-case keyword, e.g. "OPTIONAL MATCH" or "DETACH DELETE"
+  keyword: string;
+  offset: number;
+  line: number;
+  column: number;
+  // Nesting level of (), [] and {} the clause appears in (0 for top-level clauses)
+  depth: number;
+  // Fully-qualified procedure name for CALL clauses, undefined for CALL { } subqueries
+  procedure?: string;
+  // Target database or alias for USE clauses, undefined for dynamic graph references
+  graph?: string;
+}
+
+export type ValidationResult =
+  | { valid: true; clauses: CypherClause[] }
+  | { valid: false; reason: string; clause?: CypherClause; clauses: CypherClause[] };
+
+export interface ValidationOptions {
+  // Procedure names or prefixes (ending with ".") that may be invoked with CALL
+  allowedProcedures?: string[];
+  // Mode of every procedure the server has, from SHOW PROCEDURES. When set, procedures
+  // must also exist and have a read-only mode.
+  procedureModes?: ReadonlyMap<string, string>;
+}
+
+export const DEFAULT_ALLOWED_PROCEDURES = [
+  "db.schema",
+  "db.labels",
+  "db.relationshipTypes",
+  "db.propertyKeys",
+  "db.index.fulltext.queryNodes",
+  "db.index.fulltext.queryRelationships",
+  "db.index.vector.queryNodes",
+  "apoc.meta",
+  "apoc.path.expand",
+  "apoc.path.expandConfig",
+  "apoc.path.subgraphNodes",
+  "apoc.path.subgraphAll",
+  "apoc.path.spanningTree",
+];
+
+// Procedure modes that cannot change data or the schema. DEFAULT is reported for
+// procedures that declare no mode, such as many in APOC, which Neo4j runs as READ.
+// DBMS procedures, which manage the server, and WRITE procedures are never allowed.
+export const READ_ONLY_PROCEDURE_MODES = new Set(["READ", "SCHEMA", "DEFAULT"]);
+
+// Clauses that only read from the graph
+const READ_CLAUSES = new Set([
+  "MATCH",
+  "OPTIONAL MATCH",
+  "WHERE",
+  "WITH",
+  "RETURN",
+  "UNWIND",
+  "ORDER BY",
+  "SKIP",
+  "LIMIT",
+  "OFFSET",
+  "UNION",
+  "UNION ALL",
+  "UNION DISTINCT",
+  "CALL",
+  "YIELD",
+  "USE",
+  "SHOW",
+  "FINISH",
+  "EXPLAIN",
+  "PROFILE",
+  "CYPHER",
+]);
+
+// Clauses that write data
+const WRITE_CLAUSES = new Set([
+  "CREATE",
+  "INSERT",
+  "MERGE",
+  "DELETE",
+  "DETACH DELETE",
+  "NODETACH DELETE",
+  "SET",
+  "REMOVE",
+  "FOREACH",
+  "LOAD CSV",
+]);
+
+// Schema and DBMS administration commands. These words are common variable names
+// (`start`, `stop`), so they only count as clauses where a command can begin, and
+// TERMINATE also where it ends a `SHOW TRANSACTIONS ... YIELD` command.
+const ADMIN_CLAUSES = new Set([
+  "DROP",
+  "ALTER",
+  "RENAME",
+  "GRANT",
+  "DENY",
+  "REVOKE",
+  "START",
+  "STOP",
+  "TERMINATE",
+  "ENABLE",
+  "DEALLOCATE",
+  "REALLOCATE",
+]);
+
+// Keywords that only form a clause together with the word that follows them
+const COMPOUND_CLAUSES: Record<string, string[]> = {
+  OPTIONAL: ["MATCH"],
+  ORDER: ["BY"],
+  DETACH: ["DELETE"],
+  NODETACH: ["DELETE"],
+  LOAD: ["CSV"],
+  UNION: ["ALL", "DISTINCT"],
+};
+
+// Clauses a query is allowed to begin with
+const START_CLAUSES = new Set([
+  "MATCH",
+  "OPTIONAL MATCH",
+  "WITH",
+  "RETURN",
+  "UNWIND",
+  "CALL",
+  "USE",
+  "SHOW",
+  "EXPLAIN",
+  "PROFILE",
+  "CYPHER",
+]);
+
+// Clauses that may precede a command without ending the position where it can begin:
+// `USE db DROP INDEX x`, `CYPHER runtime=slotted DROP INDEX x`, `EXPLAIN DROP INDEX x`
+const COMMAND_PREFIX_CLAUSES = new Set(["USE", "CYPHER", "EXPLAIN", "PROFILE"]);
+
+// Tokens after which a word is a name (property, label, type or alias), never a keyword
+const NAME_PREFIXES = new Set([".", ":", "|", "&", "!"]);
+
+function isWord(token: Token | undefined, word?: string): boolean {
+  if (!token || token.type !== "identifier") {
+    return false;
+  }
+  return word === undefined || token.value.toUpperCase() === word;
+}
+
+function isSymbol(token: Token | undefined, symbol: string): boolean {
+  return token !== undefined && token.type === "symbol" && token.value === symbol;
+}
+
+// A word is in keyword position unless it is used as a name: `n.set`, `(:Create)`,
+// `[:SET|REMOVE]`, `{merge: 1}`, `RETURN x AS delete`, `(remove:Label)`.
+function isKeywordPosition(tokens: Token[], index: number): boolean {
+  const previous = tokens[index - 1];
+  const next = tokens[index + 1];
+
+  if (previous && previous.type === "symbol" && NAME_PREFIXES.has(previous.value)) {
+    return false;
+  }
+  if (isWord(previous, "AS")) {
+    return false;
+  }
+  if (isSymbol(next, ":")) {
+    return false;
+  }
+  return true;
+}
+
+// Write clauses are always followed by a pattern, a variable or a sub-keyword. A write
+// keyword followed by `)`, `,`, an operator or the end of the query is a variable.
+function hasClauseOperand(tokens: Token[], index: number): boolean {
+  const next = tokens[index + 1];
+  if (!next) {
+    return false;
+  }
+  if (next.type === "symbol") {
+    return next.value === "(" || next.value === "[" || next.value === "{";
+  }
+  return next.type !== "string" && next.type !== "number";
+}
+
+function readQualifiedName(tokens: Token[], start: number): string | undefined {
+  const parts: string[] = [];
+  let i = start;
+
+  while (tokens[i] && (tokens[i].type === "identifier" || tokens[i].type === "quotedIdentifier")) {
+    parts.push(tokens[i].value);
+    if (!isSymbol(tokens[i + 1], ".")) {
+      break;
+    }
+    i += 2;
+  }
+
+  return parts.length > 0 ? parts.join(".") : undefined;
+}
+
+// Whether an administration keyword is where a command begins: the first token, or
+// right after the clauses that prefix a command. `CYPHER runtime=start` is an option value.
+function isCommandStart(tokens: Token[], index: number, clauses: CypherClause[], depth: number): boolean {
+  if (clauses.length === 0) {
+    return index === 0;
+  }
+  if (depth !== 0 || isSymbol(tokens[index - 1], "=")) {
+    return false;
+  }
+  return clauses.every(clause => COMMAND_PREFIX_CLAUSES.has(clause.keyword) && clause.depth === 0);
+}
+
+// `TERMINATE TRANSACTION(S)` kills other transactions wherever it appears, including
+// after `SHOW TRANSACTIONS YIELD transactionId AS txId`
+function isTerminateTransactions(tokens: Token[], index: number): boolean {
+  const next = tokens[index + 1];
+  return isWord(tokens[index], "TERMINATE") && (isWord(next, "TRANSACTION") || isWord(next, "TRANSACTIONS"));
+}
+
+export function isProcedureAllowed(procedure: string, allowedProcedures: string[]): boolean {
+  const name = procedure.toLowerCase();
+  return allowedProcedures.some(allowed => {
+    const entry = allowed.toLowerCase();
+    return entry.endsWith(".") ? name.startsWith(entry) : name === entry || name.startsWith(`${entry}.`);
+  });
+}
+
+// Builds the clause-level view of a query: every keyword that starts a clause, in order,
+// with its position and nesting depth.
+export function parseClauses(tokens: Token[]): CypherClause[] {
+  const clauses: CypherClause[] = [];
+  let depth = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === "symbol") {
+      if (token.value === "(" || token.value === "[" || token.value === "{") {
+        depth++;
+      } else if (token.value === ")" || token.value === "]" || token.value === "}") {
+        depth = Math.max(0, depth - 1);
+      }
+      continue;
+    }
+
+    if (token.type !== "identifier" || !isKeywordPosition(tokens, i)) {
+      continue;
+    }
+
+    let keyword = token.value.toUpperCase();
+    const followers = COMPOUND_CLAUSES[keyword];
+
+    if (followers) {
+      const next = tokens[i + 1];
+      if (next && isWord(next) && followers.includes(next.value.toUpperCase())) {
+        keyword = `${keyword} ${next.value.toUpperCase()}`;
+        i++;
+      } else if (keyword !== "UNION") {
+        continue;
+      }
+    }
+
+    // `CALL { ... } IN TRANSACTIONS` batches writes; SHOW and TERMINATE TRANSACTIONS are
+    // handled through the SHOW and TERMINATE clause keywords
+    if (keyword === "TRANSACTIONS") {
+      const previous = tokens[i - 1];
+      if (isWord(previous, "IN") || isWord(previous, "CONCURRENT") || previous?.type === "number") {
+        clauses.push({
+          keyword: "IN TRANSACTIONS",
+          offset: token.offset,
+          line: token.line,
+          column: token.column,
+          depth,
+        });
+      }
+      continue;
+    }
+
+    if (WRITE_CLAUSES.has(keyword) && !hasClauseOperand(tokens, i)) {
+      continue;
+    }
+
+    if (ADMIN_CLAUSES.has(keyword)) {
+      if (!isCommandStart(tokens, i, clauses, depth) && !isTerminateTransactions(tokens, i)) {
+        continue;
+      }
+    } else if (!READ_CLAUSES.has(keyword) && !WRITE_CLAUSES.has(keyword)) {
+      continue;
+    }
+
+    const clause: CypherClause = {
+      keyword,
+      offset: token.offset,
+      line: token.line,
+      column: token.column,
+      depth,
+    };
+
+    if (keyword === "CALL") {
+      clause.procedure = readQualifiedName(tokens, i + 1);
+    } else if (keyword === "USE") {
+      // `USE graph.byName($name)` selects the graph dynamically
+      const name = readQualifiedName(tokens, i + 1);
+      if (name && !name.toLowerCase().startsWith("graph.")) {
+        clause.graph = name;
+      }
+    }
+
+    clauses.push(clause);
+  }
+
+  return clauses;
+}
+
+function describe(clause: CypherClause): string {
+  const name = clause.procedure ? `CALL ${clause.procedure}` : clause.keyword;
+  return `"${name}" at line ${clause.line}, column ${clause.column}`;
+}
+
+// Explains why a procedure may not be called, or returns undefined when it may
+function checkProcedure(
+  procedure: string,
+  allowedProcedures: string[],
+  procedureModes: ReadonlyMap<string, string> | undefined
+): string | undefined {
+  if (!isProcedureAllowed(procedure, allowedProcedures)) {
+    return `the procedure is not in procedures.allowed (${allowedProcedures.join(", ") || "empty"})`;
+  }
+  if (!procedureModes) {
+    return undefined;
+  }
+
+  const mode = procedureModes.get(procedure);
+  if (mode === undefined) {
+    return "the server has no procedure with this name";
+  }
+  if (!READ_ONLY_PROCEDURE_MODES.has(mode)) {
+    return `the procedure runs in ${mode} mode, and only READ, SCHEMA and DEFAULT procedures may be called`;
+  }
+  return undefined;
+}
+
+export function validateReadOnlyQuery(cypher: string, options: ValidationOptions = {}): ValidationResult {
+  const allowedProcedures = options.allowedProcedures ?? DEFAULT_ALLOWED_PROCEDURES;
+
+  let tokens: Token[];
+  try {
+    tokens = tokenize(cypher);
+  } catch (error) {
+    if (error instanceof CypherSyntaxError) {
+      return { valid: false, reason: error.message, clauses: [] };
+    }
+    throw error;
+  }
+
+  if (tokens.length === 0) {
+    return { valid: false, reason: "Query is empty", clauses: [] };
+  }
+
+  const clauses = parseClauses(tokens);
+
+  for (const clause of clauses) {
+    if (clause.keyword === "IN TRANSACTIONS") {
+      return {
+        valid: false,
+        reason: `${describe(clause)} is not allowed: batched transactions are only used for writes`,
+        clause,
+        clauses,
+      };
+    }
+
+    if (WRITE_CLAUSES.has(clause.keyword) || ADMIN_CLAUSES.has(clause.keyword)) {
+      return {
+        valid: false,
+        reason: `${describe(clause)} is not allowed: only read operations are permitted`,
+        clause,
+        clauses,
+      };
+    }
+
+    if (clause.keyword === "CALL" && clause.procedure) {
+      const reason = checkProcedure(clause.procedure, allowedProcedures, options.procedureModes);
+      if (reason) {
+        return { valid: false, reason: `${describe(clause)} is not allowed: ${reason}`, clause, clauses };
+      }
+    }
+  }
+
+  const first = clauses[0];
+
+  if (!first || first.offset !== tokens[0].offset || !START_CLAUSES.has(first.keyword)) {
+    const token = tokens[0];
+    return {
+      valid: false,
+      reason: `Query must start with a read clause (MATCH, OPTIONAL MATCH, WITH, RETURN, UNWIND, CALL, SHOW), found "${token.text}" at line ${token.line}, column ${token.column}`,
+      clause: first,
+      clauses,
+    };
+  }
+
+  return { valid: true, clauses };
+}
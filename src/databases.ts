@@ -0,0 +1,6 @@
+// Neo4j database names are case-insensitive, so allowlists of them are compared the
+// same way wherever they are checked
+export function includesDatabase(databases: string[], database: string): boolean {
+  const name = database.toLowerCase();
+  return databases.some(entry => entry.toLowerCase() === name);
+}
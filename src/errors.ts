@@ -0,0 +1,22 @@
+// Raised when Neo4j terminates a transaction that ran past its timeout
+export class QueryTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(
+      `Query timed out after ${timeoutMs} ms and was terminated. Narrow the pattern, add a LIMIT, or pass a larger timeoutMs.`
+    );
+    this.name = "QueryTimeoutError";
+  }
+}
+
+// Raised when the client cancels a tool call while its transaction is running
+export class QueryCancelledError extends Error {
+  constructor(public readonly reason?: string) {
+    super(`Query was cancelled by the client${reason ? `: ${reason}` : ""}`);
+    this.name = "QueryCancelledError";
+  }
+}
+
+// Timeouts and cancellations end the tool call; handlers must not retry or fall back
+export function isAbortError(error: unknown): boolean {
+  return error instanceof QueryTimeoutError || error instanceof QueryCancelledError;
+}
@@ -0,0 +1,111 @@
+// Renders tool responses that carry result rows. Every format starts from rows that went
+// through serializeValue, so values are already plain JSON.
+
+export const OUTPUT_FORMATS = ["json", "compact-json", "markdown-table", "csv", "graph"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+type Row = Record<string, unknown>;
+
+export interface TextContent {
+  type: "text";
+  text: string;
+}
+
+// `response` is the json form of the result; its `rowsKey` property holds the rows and
+// everything else is metadata that every format keeps
+export function formatResponse(format: OutputFormat, response: Record<string, unknown>, rowsKey: string): TextContent[] {
+  const rows = (response[rowsKey] ?? []) as Row[];
+  const withRows = (replacement: Record<string, unknown>) =>
+    Object.fromEntries(
+      Object.entries(response).flatMap(([key, value]) => (key === rowsKey ? Object.entries(replacement) : [[key, value]]))
+    );
+  const text = (value: string): TextContent => ({ type: "text", text: value });
+
+  switch (format) {
+    case "json":
+      return [text(JSON.stringify(response, null, 2))];
+    case "compact-json": {
+      const columns = columnsOf(rows);
+      return [text(JSON.stringify(withRows({ columns, [rowsKey]: rows.map(row => columns.map(column => row[column] ?? null)) })))];
+    }
+    case "markdown-table":
+      return [text(markdownTable(rows)), text(JSON.stringify(withRows({})))];
+    case "csv":
+      return [text(csv(rows)), text(JSON.stringify(withRows({})))];
+    case "graph":
+      return [text(JSON.stringify(withRows(collectGraph(rows)), null, 2))];
+  }
+}
+
+// Rows of one result share their keys; the union keeps the order of first appearance
+function columnsOf(rows: Row[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => columns.add(key)));
+  return [...columns];
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function markdownTable(rows: Row[]): string {
+  const columns = columnsOf(rows);
+  if (columns.length === 0) {
+    return "(no rows)";
+  }
+  const escape = (cell: string) => cell.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+  const line = (cells: string[]) => `| ${cells.map(escape).join(" | ")} |`;
+  return [
+    line(columns),
+    `|${columns.map(() => " --- ").join("|")}|`,
+    ...rows.map(row => line(columns.map(column => cellText(row[column])))),
+  ].join("\n");
+}
+
+// RFC 4180: fields holding a comma, quote or line break are quoted, quotes are doubled
+function csv(rows: Row[]): string {
+  const columns = columnsOf(rows);
+  const field = (cell: string) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+  const line = (cells: string[]) => cells.map(field).join(",");
+  return [line(columns), ...rows.map(row => line(columns.map(column => cellText(row[column]))))].join("\r\n");
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSerializedNode(value: Record<string, any>): boolean {
+  return typeof value.elementId === "string" && Array.isArray(value.labels) && isRecord(value.properties);
+}
+
+function isSerializedRelationship(value: Record<string, any>): boolean {
+  return typeof value.elementId === "string" && typeof value.type === "string" && typeof value.startElementId === "string";
+}
+
+// Every node and relationship in the rows, including those inside paths, lists and
+// maps, once each in order of first appearance. Other values are left out.
+function collectGraph(rows: Row[]) {
+  const nodes = new Map<string, unknown>();
+  const relationships = new Map<string, unknown>();
+
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (isRecord(value)) {
+      if (isSerializedNode(value)) {
+        nodes.set(value.elementId, nodes.get(value.elementId) ?? value);
+      } else if (isSerializedRelationship(value)) {
+        relationships.set(value.elementId, relationships.get(value.elementId) ?? value);
+      } else {
+        Object.values(value).forEach(visit);
+      }
+    }
+  };
+  rows.forEach(visit);
+
+  return { nodes: [...nodes.values()], relationships: [...relationships.values()] };
+}
@@ -0,0 +1,120 @@
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from "http";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { authenticate, presentedToken, Principal } from "./auth.js";
+import { Config } from "./config.js";
+import { ConnectionHealth } from "./connections.js";
+import { logger } from "./logger.js";
+
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+const HEALTH_PATH = "/healthz";
+
+// One connected client. Sessions share the server's connection pool.
+export interface Session {
+  close(): Promise<void>;
+}
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  // When any are set, opening a session and posting to it require one of these tokens
+  tokens: Config["auth"]["tokens"];
+  // Creates a session serving MCP over the given transport for an authenticated client
+  connect(transport: Transport, principal?: Principal): Promise<Session>;
+  // Health of the connection profiles, reported by /healthz
+  health(): Promise<ConnectionHealth[]>;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+
+// Serves MCP over SSE: a client opens GET /sse, receives the URL to POST its messages
+// to, and gets responses and notifications on the event stream
+export async function startHttpTransport(options: HttpTransportOptions): Promise<HttpServer> {
+  const sessions = new Map<string, { transport: SSEServerTransport; session: Session; principal?: Principal }>();
+  const requireAuth = options.tokens.length > 0;
+
+  const openSession = async (res: ServerResponse, principal?: Principal) => {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    const session = await options.connect(transport, principal);
+    const { sessionId } = transport;
+    sessions.set(sessionId, { transport, session, principal });
+    // Session ids authorize posting into a session, so they are never logged
+    logger.info(`MCP session opened (${sessions.size} active)`);
+
+    res.on("close", () => {
+      sessions.delete(sessionId);
+      session.close().catch(error => logger.warn("Failed to close MCP session:", error));
+      logger.info(`MCP session closed (${sessions.size} active)`);
+    });
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const isMcp = url.pathname === SSE_PATH || url.pathname === MESSAGES_PATH;
+
+    const principal = requireAuth && isMcp ? authenticate(options.tokens, presentedToken(req.headers)) : undefined;
+    if (requireAuth && isMcp && !principal) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendJson(res, 401, { error: "A valid bearer token or X-API-Key header is required" });
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === SSE_PATH) {
+      await openSession(res, principal);
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === MESSAGES_PATH) {
+      const entry = sessions.get(url.searchParams.get("sessionId") ?? "");
+      if (!entry) {
+        sendJson(res, 404, { error: "Unknown or expired session. Reconnect to /sse." });
+        return;
+      }
+      // A session only accepts messages from the client it was opened for
+      if (requireAuth && entry.principal?.name !== principal?.name) {
+        sendJson(res, 403, { error: "This session belongs to a different token" });
+        return;
+      }
+      // Responds with an error status itself when the message cannot be read
+      await entry.transport.handlePostMessage(req, res).catch(error => logger.debug("Rejected MCP message:", error));
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === HEALTH_PATH) {
+      const connections = await options.health();
+      const healthy = connections.some(connection => connection.isDefault && connection.healthy);
+      sendJson(res, healthy ? 200 : 503, {
+        status: healthy ? "ok" : "unavailable",
+        sessions: sessions.size,
+        connections: connections.map(({ name, healthy, error }) => ({ name, healthy, ...(error ? { error } : {}) })),
+      });
+      return;
+    }
+
+    sendJson(res, 404, { error: "Not found" });
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(error => {
+      logger.error("HTTP request failed:", error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: "Internal server error" });
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  return server;
+}
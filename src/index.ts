@@ -2,165 +2,633 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  LoggingLevel,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import neo4j, { Driver, Session } from "neo4j-driver";
+import { Server as HttpServer } from "http";
+import neo4j, { ManagedTransaction, Neo4jError, QueryStatistics, ResultSummary } from "neo4j-driver";
 import { z } from "zod";
-import { config } from "./config.js";
+import { AuditedQuery, AuditEntry, auditLog, AuditRecord } from "./audit.js";
+import { AccessDeniedError, authorize, Principal, ToolAccess } from "./auth.js";
+import { Cached, metadataCache } from "./cache.js";
+import { countNodes, countRelationships, readCountStatistics } from "./counts.js";
+import { config, ConnectionConfig, LogLevel } from "./config.js";
+import { ConnectionManager, QueryTarget } from "./connections.js";
+import { decodeCursor, encodeCursor } from "./cursor.js";
+import { includesDatabase } from "./databases.js";
+import { isAbortError, QueryCancelledError, QueryTimeoutError } from "./errors.js";
+import { formatResponse, OUTPUT_FORMATS } from "./format.js";
+import { startHttpTransport } from "./http.js";
+import { Identifier, quoteIdentifier, requireKnownIdentifier } from "./cypher/identifiers.js";
+import { tokenize } from "./cypher/lexer.js";
+import { referencedLabels } from "./cypher/references.js";
+import { validateReadOnlyQuery } from "./cypher/validator.js";
+import { logger, LogSink } from "./logger.js";
+import { assertQueryRespectsMasking, isMaskingEnabled, MASKING_QUERY_NOTE, Redactor } from "./masking.js";
+import { findPlanWarnings, summarizePlan, totalDbHits } from "./plan.js";
+import { Profile, profileProperties, sampleEntities } from "./profile.js";
+import {
+  BUILT_IN_PROMPTS,
+  explainRelationshipsText,
+  exploreLabelText,
+  jsonBlock,
+  PromptDefinition,
+  promptArguments,
+  renderTemplate,
+  SCHEMA_PLACEHOLDER,
+  templatePlaceholders,
+  writeCypherText,
+} from "./prompts.js";
+import { requestContext } from "./request-context.js";
+import { labelUri, parseResourceUri, relationshipTypeUri, SCHEMA_URI } from "./resources.js";
+import { readStructuralSchema, RunQuery, StructuralSchema, withoutLabels } from "./schema.js";
+import { watchSchema } from "./schema-watch.js";
+import { serializeValue } from "./serialize.js";
+import { relationshipPattern, Subgraph } from "./traversal.js";
+
+// MCP uses syslog severities; the logger has four levels
+const MCP_LOG_LEVELS: Record<LogLevel, LoggingLevel> = {
+  debug: "debug",
+  info: "info",
+  warn: "warning",
+  error: "error",
+};
+
+function fromMcpLogLevel(level: LoggingLevel): LogLevel {
+  switch (level) {
+    case "debug":
+      return "debug";
+    case "info":
+    case "notice":
+      return "info";
+    case "warning":
+      return "warn";
+    default:
+      return "error";
+  }
+}
+
+const ConnectionArgsSchema = z.object({
+  connection: z.string().optional(),
+});
+
+const TargetArgsSchema = ConnectionArgsSchema.extend({
+  database: z.string().optional(),
+});
+
+// Every tool accepts an optional connection profile and target database
+const CONNECTION_PROPERTY = {
+  connection: {
+    type: "string",
+    description: "Optional connection profile to use. Defaults to the configured default connection",
+  },
+};
+
+const DATABASE_PROPERTY = {
+  ...CONNECTION_PROPERTY,
+  database: {
+    type: "string",
+    description: "Optional database to run against. Defaults to the connection's configured database",
+  },
+};
+
+const FormatArgsSchema = z.object({
+  format: z.enum(OUTPUT_FORMATS).optional().default("json"),
+});
+
+const FORMAT_PROPERTY = {
+  format: {
+    type: "string",
+    enum: OUTPUT_FORMATS,
+    description: "Output format (default: json). compact-json lists the columns once and each row as an array; markdown-table and csv return the rows as a table followed by the metadata; graph returns the distinct nodes and relationships of all rows",
+  },
+};
+
+// A node picked by element id, or by a property value that identifies it within a label
+const NodeReferenceSchema = z.union([
+  z.object({ elementId: z.string().min(1) }).strict(),
+  z
+    .object({
+      label: z.string(),
+      property: z.string().min(1),
+      value: z.union([z.string(), z.number(), z.boolean()]),
+    })
+    .strict(),
+]);
+
+type NodeReference = z.infer<typeof NodeReferenceSchema>;
+
+const TraversalArgsSchema = TargetArgsSchema.extend({
+  direction: z.enum(["outgoing", "incoming", "both"]).optional().default("both"),
+  relationshipTypes: z.array(z.string()).optional().default([]),
+});
+
+const NODE_REFERENCE_PROPERTY = {
+  type: "object",
+  description: "Either { elementId } or { label, property, value } matching exactly one node",
+  properties: {
+    elementId: { type: "string" },
+    label: { type: "string" },
+    property: { type: "string" },
+    value: { type: ["string", "number", "boolean"] },
+  },
+};
+
+const TRAVERSAL_PROPERTIES = {
+  direction: {
+    type: "string",
+    enum: ["outgoing", "incoming", "both"],
+    description: "Relationship direction to follow (default: both)",
+  },
+  relationshipTypes: {
+    type: "array",
+    items: { type: "string" },
+    description: "Only follow relationships of these types (default: all)",
+  },
+};
+
+const ProfileArgsSchema = z.object({
+  mode: z.enum(["summary", "profile"]).optional().default("summary"),
+  sampleSize: z.number().int().min(1).optional(),
+  topValues: z.number().int().min(1).max(20).optional().default(5),
+});
 
+const PROFILE_PROPERTIES = {
+  mode: {
+    type: "string",
+    enum: ["summary", "profile"],
+    description: "summary counts every property key with its type; profile samples entities and reports per property its fill rate, types, distinct values, min and max, frequent and example values (default: summary)",
+  },
+  sampleSize: {
+    type: "number",
+    description: "Entities the profile samples (default and maximum: limits.maxProfileSampleSize)",
+    minimum: 1,
+  },
+  topValues: {
+    type: "number",
+    description: "Most frequent values the profile lists per property (default: 5)",
+    minimum: 1,
+    maximum: 20,
+  },
+};
+
+// A full-text or vector index as listed by SHOW INDEXES
+interface SearchIndex {
+  name: string;
+  entityType: "NODE" | "RELATIONSHIP";
+  labelsOrTypes: string[];
+  properties: string[];
+  // Embedding size of a vector index
+  dimensions?: number;
+}
+
+interface ReadOptions {
+  // Overrides the connection's queryTimeoutMs; never exceeds it when one is configured
+  timeoutMs?: number;
+}
+
+interface PageOptions extends ReadOptions {
+  offset: number;
+  pageSize: number;
+  maxBytes: number;
+  redactor: Redactor;
+}
+
+interface GraphSchema {
+  labels: string[];
+  relationshipTypes: string[];
+  propertyKeys: string[];
+}
+
+interface Page {
+  rows: any[];
+  // Set when more rows exist, naming the limit that ended the page
+  truncatedBy?: "rows" | "bytes";
+  summary: ResultSummary;
+}
+
+// Serves one MCP client. Over stdio there is a single instance; over HTTP each session
+// gets its own, and all of them share one ConnectionManager and its driver pool.
 class Neo4jMCPServer {
   private server: Server;
-  private driver: Driver | null = null;
+  // Subscribed resource URIs and the content last sent for them
+  private subscriptions = new Map<string, string | undefined>();
+  private unwatchSchema?: () => void;
+  private logSink: LogSink;
 
-  constructor() {
+  // Set for HTTP sessions opened with a token; stdio sessions are unrestricted
+  constructor(private readonly connections: ConnectionManager, private readonly principal?: Principal) {
     this.server = new Server(
       {
         name: "neo4j-mcp-readonly",
         version: "1.0.0",
+      },
+      {
+        capabilities: {
+          tools: {},
+          // Clients only subscribe and listen for list changes when these are declared
+          resources: { subscribe: true, listChanged: true },
+          prompts: {},
+          logging: {},
+        },
       }
     );
 
+    this.logSink = this.setupLogging();
     this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
     this.setupErrorHandling();
   }
 
-  private async connectToNeo4j() {
-    if (this.driver) {
-      return this.driver;
+  // Runs `work` in a READ transaction. The access mode routes queries to a read replica
+  // on clusters and makes the server reject writes that got past validateReadOnlyQuery.
+  // Cancelling the current tool call closes the session, which terminates the transaction.
+  private async executeRead<T>(
+    target: QueryTarget,
+    work: (tx: ManagedTransaction) => Promise<T>,
+    options: ReadOptions = {}
+  ): Promise<T> {
+    const driver = await this.connections.getDriver(target.connection);
+    const { profile } = this.connections.getProfile(target.connection);
+    const session = driver.session({ defaultAccessMode: neo4j.session.READ, database: target.database });
+
+    const configured = profile.limits.queryTimeoutMs;
+    const timeout = options.timeoutMs !== undefined && configured > 0
+      ? Math.min(options.timeoutMs, configured)
+      : options.timeoutMs ?? configured;
+
+    const signal = requestContext.getStore()?.signal;
+    const onAbort = () => {
+      session.close().catch(() => undefined);
+    };
+    signal?.addEventListener("abort", onAbort);
+
+    try {
+      if (signal?.aborted) {
+        throw new QueryCancelledError(typeof signal.reason === "string" ? signal.reason : undefined);
+      }
+      return await session.executeRead(work, timeout > 0 ? { timeout } : undefined);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error instanceof QueryCancelledError
+          ? error
+          : new QueryCancelledError(typeof signal.reason === "string" ? signal.reason : undefined);
+      }
+      if (error instanceof Neo4jError && error.code.includes("TransactionTimedOut")) {
+        throw new QueryTimeoutError(timeout);
+      }
+      throw error;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      await session.close();
+    }
+  }
+
+  // Anything the server still reports as an update rolls the transaction back, since
+  // throwing inside a transaction function aborts it
+  private assertNoUpdates(counters: QueryStatistics) {
+    if (counters.containsUpdates() || counters.containsSystemUpdates()) {
+      const updates = Object.entries(counters.updates())
+        .filter(([, count]) => count > 0)
+        .map(([name, count]) => `${name}=${count}`);
+      if (counters.containsSystemUpdates()) {
+        updates.push(`systemUpdates=${counters.systemUpdates()}`);
+      }
+      throw new Error(
+        `Query modified the database (${updates.join(", ")}) and was rolled back. Only read operations are allowed.`
+      );
     }
+  }
+
+  // Runs one query for the current tool call. The query is added to the call's audit
+  // record outside the transaction, since executeRead may retry the work, and reported
+  // when it takes longer than logging.slowQueryMs.
+  private async trackQuery<T>(
+    target: QueryTarget,
+    query: string,
+    parameters: Record<string, any>,
+    run: () => Promise<T>,
+    countRows: (result: T) => number | undefined
+  ): Promise<T> {
+    const context = requestContext.getStore();
+    const audited: AuditedQuery = {
+      connection: target.connection,
+      database: target.database,
+      cypher: query,
+      parameters: auditLog.describeParameters(parameters),
+    };
+    context?.audit.queries.push(audited);
 
+    const started = Date.now();
     try {
-      this.driver = neo4j.driver(
-        config.neo4j.uri,
-        neo4j.auth.basic(config.neo4j.username, config.neo4j.password),
-        {
-          disableLosslessIntegers: true,
+      const result = await run();
+      audited.rowCount = countRows(result);
+      return result;
+    } finally {
+      audited.durationMs = Date.now() - started;
+      const threshold = config.logging.slowQueryMs;
+      if (threshold > 0 && audited.durationMs >= threshold) {
+        logger.event("warn", `Slow query took ${audited.durationMs} ms`, {
+          event: "slow_query",
+          tool: context?.toolName,
+          connection: target.connection,
+          database: target.database,
+          cypher: query,
+          durationMs: audited.durationMs,
+          thresholdMs: threshold,
+        });
+      }
+    }
+  }
+
+  private async runRead(query: string, parameters: Record<string, any>, target: QueryTarget) {
+    return this.trackQuery(target, query, parameters, () => this.executeRead(target, async tx => {
+      const result = await tx.run(query, parameters);
+      this.assertNoUpdates(result.summary.counters);
+      return result;
+    }), result => result.records.length);
+  }
+
+  // Streams one page of a query's rows. Rows before `offset` are skipped and the stream
+  // is cancelled as soon as the page is full, so large results are never materialized.
+  private async readPage(query: string, parameters: Record<string, any>, target: QueryTarget, options: PageOptions): Promise<Page> {
+    return this.trackQuery(target, query, parameters, () => this.executeRead(target, async tx => {
+      const rows: any[] = [];
+      let bytes = 0;
+      let index = 0;
+      let truncatedBy: Page["truncatedBy"];
+
+      const iterator = tx.run(query, parameters)[Symbol.asyncIterator]();
+      let next = await iterator.next();
+
+      while (!next.done) {
+        if (index >= options.offset) {
+          if (rows.length >= options.pageSize) {
+            truncatedBy = "rows";
+            break;
+          }
+
+          const record = next.value;
+          const row: any = {};
+          record.keys.forEach((key, keyIndex) => {
+            row[key] = serializeValue(options.redactor.mask(record.get(keyIndex)));
+          });
+
+          // Always return at least one row so that paging makes progress
+          const size = Buffer.byteLength(JSON.stringify(row), "utf8");
+          if (rows.length > 0 && bytes + size > options.maxBytes) {
+            truncatedBy = "bytes";
+            break;
+          }
+
+          rows.push(row);
+          bytes += size;
         }
-      );
+        index++;
+        next = await iterator.next();
+      }
 
-      // Test the connection
-      const session = this.driver.session();
-      await session.run("RETURN 1");
-      await session.close();
+      // Stopping early cancels the rest of the stream; either way the summary comes back last
+      const done = next.done ? next : await iterator.return!();
+      const summary = done.value as ResultSummary;
+      this.assertNoUpdates(summary.counters);
 
-      console.error("Connected to Neo4j database");
-      return this.driver;
-    } catch (error) {
-      console.error("Failed to connect to Neo4j:", error);
-      throw error;
+      return { rows, truncatedBy, summary };
+    }, options), page => page.rows.length);
+  }
+
+  // Picks the connection and database for a tool call and enforces the profile's
+  // database allowlist
+  private resolveTarget(connection?: string, database?: string): QueryTarget {
+    const { name, profile } = this.connections.getProfile(connection);
+    const target = database ?? profile.database;
+    if (target !== undefined && !this.isDatabaseAllowed(profile, target)) {
+      throw new Error(
+        `Database '${target}' is not allowed on connection '${name}'. Allowed databases: ${profile.allowedDatabases!.join(", ")}`
+      );
     }
+    return { connection: name, database: target };
   }
 
-  private validateReadOnlyQuery(cypher: string): boolean {
-    // Convert to lowercase and remove extra whitespace
-    const normalizedQuery = cypher.toLowerCase().trim();
-    
-    // List of forbidden keywords that indicate write operations
-    const forbiddenKeywords = [
-      'create',
-      'delete',
-      'detach delete',
-      'merge',
-      'set',
-      'remove',
-      'drop',
-      'alter',
-      'constraint',
-      'index',
-      'call {',
-      'load csv',
-      'foreach',
-      'with create',
-      'with merge',
-      'with delete',
-      'with set',
-      'with remove'
-    ];
-
-    // Check for forbidden keywords
-    for (const keyword of forbiddenKeywords) {
-      if (normalizedQuery.includes(keyword)) {
-        return false;
+  // Validates a caller-supplied query. USE clauses switch databases inside the query, so
+  // they are checked against the profile's database allowlist too.
+  private async assertReadOnlyQuery(query: string, target: QueryTarget) {
+    const context = requestContext.getStore();
+    const audit = context?.audit;
+    const reject = (reason: string): never => {
+      if (audit) {
+        audit.validation = { cypher: query, accepted: false, reason };
       }
+      logger.event("warn", "Query rejected", { event: "query_rejected", tool: context?.toolName, cypher: query, reason });
+      throw new Error(`Query rejected: ${reason}`);
+    };
+
+    const { profile } = this.connections.getProfile(target.connection);
+    const validation = validateReadOnlyQuery(query, {
+      allowedProcedures: config.procedures.allowed,
+      procedureModes: await this.connections.getProcedureModes(target.connection),
+    });
+    if (!validation.valid) {
+      return reject(validation.reason);
     }
 
-    // Additional check for CALL procedures that might modify data
-    if (normalizedQuery.includes('call ')) {
-      // Allow only specific read-only procedures
-      const allowedProcedures = [
-        'db.schema',
-        'db.labels',
-        'db.relationshipTypes',
-        'db.propertyKeys',
-        'apoc.meta',
-        'algo.',
-        'gds.'
-      ];
-      
-      const callMatch = normalizedQuery.match(/call\s+([a-zA-Z0-9_.]+)/);
-      if (callMatch) {
-        const procedure = callMatch[1];
-        const isAllowed = allowedProcedures.some(allowed => 
-          procedure.startsWith(allowed)
-        );
-        if (!isAllowed) {
-          return false;
+    if (profile.allowedDatabases) {
+      for (const clause of validation.clauses) {
+        if (clause.keyword === "USE" && (!clause.graph || !this.isDatabaseAllowed(profile, clause.graph))) {
+          reject(
+            `"USE ${clause.graph ?? "<dynamic graph>"}" at line ${clause.line}, column ${clause.column} targets a database that is not allowed`
+          );
         }
       }
     }
 
-    // Must start with allowed read operations
-    const allowedStartKeywords = [
-      'match',
-      'return',
-      'with',
-      'unwind',
-      'call db.schema',
-      'call db.labels',
-      'call db.relationshipTypes',
-      'call db.propertyKeys',
-      'call apoc.meta',
-      'show'
-    ];
+    if (audit) {
+      audit.validation = { cypher: query, accepted: true };
+    }
+    return validation;
+  }
 
-    const startsWithAllowed = allowedStartKeywords.some(keyword => 
-      normalizedQuery.startsWith(keyword)
-    );
+  // Hidden labels and labels outside the access policy resolve first, so that the error
+  // says why they cannot be used
+  private async resolveLabel(label: string, target: QueryTarget): Promise<Identifier> {
+    const identifier = await this.resolveSchemaName("label", label, target, schema => schema.labels);
+    if (config.masking.hiddenLabels.includes(identifier.name)) {
+      throw new Error(`Label '${identifier.name}' is hidden by the masking policy`);
+    }
+    if (!this.isLabelVisible(identifier.name)) {
+      throw new AccessDeniedError(`label '${identifier.name}' is not allowed for '${this.principal!.name}'`);
+    }
+    return identifier;
+  }
+
+  // Labels the masking policy hides, and labels outside the session's access policy, are
+  // left out of schema, count and prompt output
+  private isLabelVisible(label: string): boolean {
+    const allowed = this.principal?.policy.labels;
+    return !config.masking.hiddenLabels.includes(label) && (!allowed || allowed.includes(label));
+  }
+
+  private hidesLabels(): boolean {
+    return config.masking.hiddenLabels.length > 0 || this.principal?.policy.labels !== undefined;
+  }
+
+  // Redacts results by the masking policy and hides nodes the session may not see
+  private createRedactor(): Redactor {
+    return new Redactor(config.masking, this.principal?.policy.labels);
+  }
+
+  // A node that carries a visible label and a hidden one matches patterns on the visible
+  // label. The redactor leaves it out of results, but not the values a query reads from
+  // it, so queries may not match visible labels that nodes share with hidden ones.
+  private async assertLabelsNotShared(query: string, target: QueryTarget) {
+    if (!this.hidesLabels()) {
+      return;
+    }
+
+    const { value: schema } = await this.cachedSchema(target);
+    const masked = schema.labels.filter(label => config.masking.hiddenLabels.includes(label));
+    const denied = this.principal?.policy.labels
+      ? schema.labels.filter(label => !this.isLabelVisible(label) && !masked.includes(label))
+      : [];
+    for (const label of new Set(referencedLabels(tokenize(query)))) {
+      if (await this.isLabelShared(label, masked, target)) {
+        throw new Error(`Some nodes labeled '${label}' also carry labels hidden by the masking policy, so queries may not match '${label}'`);
+      }
+      if (await this.isLabelShared(label, denied, target)) {
+        throw new AccessDeniedError(
+          `some nodes labeled '${label}' also carry labels not allowed for '${this.principal!.name}', so queries may not match '${label}'`
+        );
+      }
+    }
+  }
+
+  private async isLabelShared(label: string, others: string[], target: QueryTarget): Promise<boolean> {
+    if (others.length === 0) {
+      return false;
+    }
+    const { value } = await metadataCache.get(target, `shared:${label}:${JSON.stringify(others)}`, async () => {
+      const records = await this.queryRunner(target)(
+        `MATCH (n:${quoteIdentifier(label)}) WHERE any(other IN labels(n) WHERE other IN $others) RETURN 1 LIMIT 1`,
+        { others }
+      );
+      return records.length > 0;
+    });
+    return value;
+  }
+
+  private async resolveRelationshipType(type: string, target: QueryTarget): Promise<Identifier> {
+    return this.resolveSchemaName("relationship type", type, target, schema => schema.relationshipTypes);
+  }
+
+  // Labels and relationship types are spliced into Cypher, so tool arguments naming them
+  // must match a name that exists in the target database
+  private async resolveSchemaName(
+    kind: "label" | "relationship type",
+    input: string,
+    target: QueryTarget,
+    names: (schema: GraphSchema) => string[]
+  ): Promise<Identifier> {
+    const cached = await this.cachedSchema(target);
+    try {
+      return requireKnownIdentifier(kind, input, names(cached.value));
+    } catch (error) {
+      // The name may have been created after the schema was cached
+      const fresh = await this.cachedSchema(target, true);
+      return requireKnownIdentifier(kind, input, names(fresh.value));
+    }
+  }
 
-    return startsWithAllowed;
+  private isDatabaseAllowed(profile: ConnectionConfig, database: string): boolean {
+    return !profile.allowedDatabases || includesDatabase(profile.allowedDatabases, database);
   }
 
   private setupToolHandlers() {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools: [
+        tools: this.visibleTools([
           {
             name: "neo4j_query",
-            description: "Execute read-only Cypher queries against the Neo4j database. Only MATCH, RETURN, WITH, UNWIND, and read-only CALL procedures are allowed.",
+            description: `Execute read-only Cypher queries against the Neo4j database. Only MATCH, RETURN, WITH, UNWIND, and read-only CALL procedures are allowed. Large results are truncated; pass the returned nextCursor to fetch more rows.${isMaskingEnabled(config.masking) ? ` ${MASKING_QUERY_NOTE}` : ""}`,
+            inputSchema: {
+              type: "object",
+              properties: {
+                query: {
+                  type: "string",
+                  description: "The Cypher query to execute (read-only operations only). Required unless cursor is given",
+                },
+                parameters: {
+                  type: "object",
+                  description: "Optional parameters for the query",
+                  additionalProperties: true,
+                },
+                pageSize: {
+                  type: "number",
+                  description: "Maximum rows to return in this page (default and maximum: the configured row limit)",
+                  minimum: 1,
+                },
+                cursor: {
+                  type: "string",
+                  description: "nextCursor from a previous response, to fetch the next page of the same query. Use ORDER BY for stable pages",
+                },
+                timeoutMs: {
+                  type: "number",
+                  description: "Optional transaction timeout in milliseconds. Cannot exceed the configured query timeout",
+                  minimum: 1,
+                },
+                ...FORMAT_PROPERTY,
+                ...DATABASE_PROPERTY,
+              },
+            },
+          },
+          {
+            name: "neo4j_explain",
+            description: "Show how Neo4j will execute a read-only query without running it (EXPLAIN), or run it and report actual rows and db hits (PROFILE, when enabled). Flags plan warning signs such as AllNodesScan, CartesianProduct and Eager.",
             inputSchema: {
               type: "object",
               properties: {
                 query: {
                   type: "string",
-                  description: "The Cypher query to execute (read-only operations only)",
+                  description: "The Cypher query to explain, without a leading EXPLAIN or PROFILE",
                 },
                 parameters: {
                   type: "object",
                   description: "Optional parameters for the query",
                   additionalProperties: true,
                 },
+                mode: {
+                  type: "string",
+                  enum: ["explain", "profile"],
+                  description: "explain (default) plans the query without running it; profile runs it and is only available when enabled in the server config",
+                },
+                ...DATABASE_PROPERTY,
               },
               required: ["query"],
             },
           },
           {
             name: "neo4j_schema",
-            description: "Get the database schema including node labels, relationship types, and property keys",
+            description: "Get the database schema including node labels, relationship types, and property keys. With detail 'structure', also returns which labels connect through which relationship types, with counts, property types and index and constraint coverage",
             inputSchema: {
               type: "object",
-              properties: {},
+              properties: {
+                detail: {
+                  type: "string",
+                  enum: ["summary", "structure"],
+                  description: "summary (default) lists labels, relationship types and property keys; structure returns the connectivity map",
+                },
+                ...DATABASE_PROPERTY,
+              },
             },
           },
           {
@@ -168,32 +636,44 @@ class Neo4jMCPServer {
             description: "Test the connection to the Neo4j database",
             inputSchema: {
               type: "object",
-              properties: {},
+              properties: {
+                ...DATABASE_PROPERTY,
+              },
             },
           },
           {
             name: "neo4j_node_count",
-            description: "Get the count of nodes by label or total count of all nodes",
+            description: "Get the count of nodes with a label, or the total count of all nodes with a count per label. Counts come from the count store and say whether they are exact",
             inputSchema: {
               type: "object",
               properties: {
                 label: {
                   type: "string",
-                  description: "Optional label to count nodes for. If not provided, returns total count of all nodes",
+                  description: "Optional label to count nodes for. If not provided, returns the total count of all nodes and a count per label",
                 },
+                ...DATABASE_PROPERTY,
               },
             },
           },
           {
             name: "neo4j_relationship_count",
-            description: "Get the count of relationships by type or total count of all relationships",
+            description: "Get the count of relationships by type and start or end label, or the total count of all relationships with a count per type. Counts come from the count store and say whether they are exact or an estimate",
             inputSchema: {
               type: "object",
               properties: {
                 type: {
                   type: "string",
-                  description: "Optional relationship type to count. If not provided, returns total count of all relationships",
+                  description: "Optional relationship type to count. If no type or label is provided, returns the total count of all relationships and a count per type",
+                },
+                startLabel: {
+                  type: "string",
+                  description: "Optional label of the start node",
                 },
+                endLabel: {
+                  type: "string",
+                  description: "Optional label of the end node. Together with startLabel the count is an estimate",
+                },
+                ...DATABASE_PROPERTY,
               },
             },
           },
@@ -202,7 +682,9 @@ class Neo4jMCPServer {
             description: "Get general database information including version, edition, and basic statistics",
             inputSchema: {
               type: "object",
-              properties: {},
+              properties: {
+                ...DATABASE_PROPERTY,
+              },
             },
           },
           {
@@ -210,7 +692,9 @@ class Neo4jMCPServer {
             description: "List all indexes in the database",
             inputSchema: {
               type: "object",
-              properties: {},
+              properties: {
+                ...DATABASE_PROPERTY,
+              },
             },
           },
           {
@@ -218,7 +702,9 @@ class Neo4jMCPServer {
             description: "List all constraints in the database",
             inputSchema: {
               type: "object",
-              properties: {},
+              properties: {
+                ...DATABASE_PROPERTY,
+              },
             },
           },
           {
@@ -241,12 +727,116 @@ class Neo4jMCPServer {
                   minimum: 1,
                   maximum: 50,
                 },
+                ...FORMAT_PROPERTY,
+                ...DATABASE_PROPERTY,
+              },
+            },
+          },
+          {
+            name: "neo4j_neighborhood",
+            description: "Get the nodes and relationships within a few hops of one node, expanded hop by hop up to the configured depth and size limits",
+            inputSchema: {
+              type: "object",
+              properties: {
+                node: NODE_REFERENCE_PROPERTY,
+                depth: {
+                  type: "number",
+                  description: "Hops to expand (default: 1, max: the configured traversal depth)",
+                  minimum: 1,
+                },
+                ...TRAVERSAL_PROPERTIES,
+                limit: {
+                  type: "number",
+                  description: "Maximum nodes to return (default and max: the configured traversal result limit)",
+                  minimum: 1,
+                },
+                ...DATABASE_PROPERTY,
+              },
+              required: ["node"],
+            },
+          },
+          {
+            name: "neo4j_shortest_path",
+            description: "Find the shortest path between two nodes, or all shortest paths, up to the configured depth",
+            inputSchema: {
+              type: "object",
+              properties: {
+                from: NODE_REFERENCE_PROPERTY,
+                to: NODE_REFERENCE_PROPERTY,
+                maxDepth: {
+                  type: "number",
+                  description: "Maximum relationships in a path (default and max: the configured traversal depth)",
+                  minimum: 1,
+                },
+                ...TRAVERSAL_PROPERTIES,
+                all: {
+                  type: "boolean",
+                  description: "Return every shortest path instead of one (default: false)",
+                },
+                limit: {
+                  type: "number",
+                  description: "Maximum paths to return when all is set (default and max: the configured traversal result limit)",
+                  minimum: 1,
+                },
+                ...DATABASE_PROPERTY,
+              },
+              required: ["from", "to"],
+            },
+          },
+          {
+            name: "neo4j_fulltext_search",
+            description: "Search a full-text index with a Lucene query and return the matching nodes or relationships with their scores, best first",
+            inputSchema: {
+              type: "object",
+              properties: {
+                index: {
+                  type: "string",
+                  description: "Name of a full-text index, as listed by neo4j_indexes",
+                },
+                query: {
+                  type: "string",
+                  description: "Lucene query, e.g. 'alice~' or 'title:matrix AND year:1999'",
+                },
+                limit: {
+                  type: "number",
+                  description: "Number of hits to return (default: 10, max: 100)",
+                  minimum: 1,
+                  maximum: 100,
+                },
+                ...DATABASE_PROPERTY,
+              },
+              required: ["index", "query"],
+            },
+          },
+          {
+            name: "neo4j_vector_search",
+            description: "Find the nodes or relationships whose embeddings in a vector index are closest to the given embedding, with their similarity scores, best first",
+            inputSchema: {
+              type: "object",
+              properties: {
+                index: {
+                  type: "string",
+                  description: "Name of a vector index, as listed by neo4j_indexes",
+                },
+                embedding: {
+                  type: "array",
+                  items: { type: "number" },
+                  description: "Query vector with as many dimensions as the index",
+                },
+                topK: {
+                  type: "number",
+                  description: "Number of nearest neighbors to return (default: 10, max: 100)",
+                  minimum: 1,
+                  maximum: 100,
+                },
+                ...DATABASE_PROPERTY,
               },
+              required: ["index", "embedding"],
             },
           },
           {
             name: "neo4j_node_properties",
-            description: "Get all properties and their types for a specific node label",
+            description: "Get all properties and their types for a specific node label. The profile mode samples nodes and adds fill rates, distinct-value estimates, ranges and frequent values",
             inputSchema: {
               type: "object",
               properties: {
@@ -254,13 +844,15 @@ class Neo4jMCPServer {
                   type: "string",
                   description: "Node label to analyze properties for",
                 },
+                ...PROFILE_PROPERTIES,
+                ...DATABASE_PROPERTY,
               },
               required: ["label"],
             },
           },
           {
             name: "neo4j_relationship_properties",
-            description: "Get all properties and their types for a specific relationship type",
+            description: "Get all properties and their types for a specific relationship type. The profile mode samples relationships and adds fill rates, distinct-value estimates, ranges and frequent values",
             inputSchema: {
               type: "object",
               properties: {
@@ -268,50 +860,82 @@ class Neo4jMCPServer {
                   type: "string",
                   description: "Relationship type to analyze properties for",
                 },
+                ...PROFILE_PROPERTIES,
+                ...DATABASE_PROPERTY,
               },
               required: ["type"],
             },
           },
-        ],
+          {
+            name: "neo4j_list_databases",
+            description: "List the databases on the server that this connection may access, with their status and default flags",
+            inputSchema: {
+              type: "object",
+              properties: {
+                ...CONNECTION_PROPERTY,
+              },
+            },
+          },
+          {
+            name: "neo4j_refresh_cache",
+            description: "Drop the cached schema, index, constraint and count metadata so the next calls read it from the database again. Use after the schema or data changed",
+            inputSchema: {
+              type: "object",
+              properties: {
+                ...CONNECTION_PROPERTY,
+                database: {
+                  type: "string",
+                  description: "Optional database to refresh. Defaults to every database of the connection",
+                },
+              },
+            },
+          },
+          {
+            name: "neo4j_list_connections",
+            description: "List the configured connection profiles and check whether each one is reachable",
+            inputSchema: {
+              type: "object",
+              properties: {},
+            },
+          },
+        ]),
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    // The SDK aborts `signal` when the client cancels the call or the session closes
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, { requestId, signal }) => {
+      const { name, arguments: args = {} } = request.params;
+
+      const audit: AuditRecord = { queries: [] };
+      const started = Date.now();
 
       try {
-        switch (name) {
-          case "neo4j_query":
-            return await this.handleQuery(args);
-          case "neo4j_schema":
-            return await this.handleSchema();
-          case "neo4j_test_connection":
-            return await this.handleTestConnection();
-          case "neo4j_node_count":
-            return await this.handleNodeCount(args);
-          case "neo4j_relationship_count":
-            return await this.handleRelationshipCount(args);
-          case "neo4j_database_info":
-            return await this.handleDatabaseInfo();
-          case "neo4j_indexes":
-            return await this.handleIndexes();
-          case "neo4j_constraints":
-            return await this.handleConstraints();
-          case "neo4j_sample_data":
-            return await this.handleSampleData(args);
-          case "neo4j_node_properties":
-            return await this.handleNodeProperties(args);
-          case "neo4j_relationship_properties":
-            return await this.handleRelationshipProperties(args);
-          default:
-            throw new Error(`Unknown tool: ${name}`);
-        }
+        const result = await requestContext.run(
+          { session: this, requestId, toolName: name, signal, audit },
+          () => this.callTool(name, args)
+        );
+        this.writeAudit(name, requestId, audit, started, "ok");
+        return result;
       } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        let text = `Error: ${message}`;
+        let outcome: AuditEntry["outcome"] = "error";
+        if (error instanceof QueryTimeoutError) {
+          text = `Timeout: ${error.message}`;
+          outcome = "timeout";
+        } else if (error instanceof QueryCancelledError) {
+          text = `Cancelled: ${error.message}`;
+          outcome = "cancelled";
+        } else if (error instanceof AccessDeniedError) {
+          outcome = "denied";
+        }
+        this.writeAudit(name, requestId, audit, started, outcome, message);
+
         return {
           content: [
             {
               type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              text,
             },
           ],
         };
@@ -319,572 +943,1589 @@ class Neo4jMCPServer {
     });
   }
 
-  private async handleQuery(args: any) {
-    const QuerySchema = z.object({
-      query: z.string(),
-      parameters: z.record(z.any()).optional().default({}),
+  private writeAudit(
+    tool: string,
+    requestId: string | number | undefined,
+    audit: AuditRecord,
+    started: number,
+    outcome: AuditEntry["outcome"],
+    error?: string
+  ) {
+    if (!auditLog.enabled) {
+      return;
+    }
+
+    const [first] = audit.queries;
+    auditLog.write({
+      timestamp: new Date(started).toISOString(),
+      requestId,
+      tool,
+      principal: this.principal?.name,
+      connection: first?.connection,
+      database: first?.database,
+      ...audit,
+      rowCount: audit.queries.reduce((sum, query) => sum + (query.rowCount ?? 0), 0),
+      durationMs: Date.now() - started,
+      outcome,
+      error,
     });
+  }
 
-    const { query, parameters } = QuerySchema.parse(args);
+  // Clients only see the tools their policy allows
+  private visibleTools<T extends { name: string }>(tools: T[]): T[] {
+    const allowed = this.principal?.policy.tools;
+    return allowed ? tools.filter(tool => allowed.includes(tool.name)) : tools;
+  }
 
-    // Validate that the query is read-only
-    if (!this.validateReadOnlyQuery(query)) {
-      throw new Error(
-        "Query contains forbidden operations. Only read operations (MATCH, RETURN, WITH, UNWIND, etc.) are allowed."
-      );
+  // Resolves what a tool call would touch from its arguments and checks it against the
+  // session's policy, before any handler runs
+  private async authorizeToolCall(name: string, args: Record<string, unknown>) {
+    if (!this.principal) {
+      return;
     }
 
-    const driver = await this.connectToNeo4j();
-    const session = driver.session();
+    const parsed = TargetArgsSchema.safeParse(args);
+    let { connection, database } = parsed.success ? parsed.data : {};
+    let query = typeof args.query === "string" ? args.query : undefined;
+    // A cursor carries the query and target of the page it continues
+    if (name === "neo4j_query" && typeof args.cursor === "string") {
+      const cursor = decodeCursor(args.cursor);
+      ({ connection, database, query } = cursor);
+    }
 
-    try {
-      const result = await session.run(query, parameters);
-      const records = result.records.map(record => {
-        const obj: any = {};
-        record.keys.forEach((key, index) => {
-          const value = record.get(index);
-          obj[key] = this.convertNeo4jValue(value);
-        });
-        return obj;
-      });
+    const target = this.resolveTarget(connection, database);
+    // Under a label policy, CALL is only allowed for procedures known not to yield nodes
+    const nodeProcedures = this.principal.policy.labels && query !== undefined
+      ? (await this.connections.getProcedures(target.connection))?.nodeYielding
+      : undefined;
+    authorize(this.principal, {
+      tool: name,
+      connection: target.connection,
+      database: target.database,
+      labels: [args.label, args.startLabel, args.endLabel, ...["node", "from", "to"].map(key => (args[key] as { label?: unknown } | undefined)?.label)]
+        .filter((label): label is string => typeof label === "string"),
+      query,
+      nodeProcedures,
+    });
+  }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              query,
-              parameters,
-              records,
-              summary: {
-                resultConsumedAfter: result.summary.resultConsumedAfter,
-                resultAvailableAfter: result.summary.resultAvailableAfter,
-                counters: result.summary.counters,
-              },
-            }, null, 2),
-          },
-        ],
-      };
-    } finally {
-      await session.close();
+  // Resources expose what the matching tools return, so the same policy applies
+  private resourceAccess(uri: string): ToolAccess {
+    const resource = parseResourceUri(uri);
+    const target = this.resolveTarget();
+    const base = { connection: target.connection, database: target.database };
+    switch (resource.kind) {
+      case "schema":
+        return { ...base, tool: "neo4j_schema", labels: [] };
+      case "label":
+        return { ...base, tool: "neo4j_node_properties", labels: [resource.label] };
+      case "relationshipType":
+        return { ...base, tool: "neo4j_relationship_properties", labels: [] };
     }
   }
 
-  private async handleSchema() {
-    const driver = await this.connectToNeo4j();
-    const session = driver.session();
-
+  private isAllowed(access: ToolAccess): boolean {
+    if (!this.principal) {
+      return true;
+    }
     try {
-      const [labelsResult, relationshipsResult, propertiesResult] = await Promise.all([
-        session.run("CALL db.labels()"),
-        session.run("CALL db.relationshipTypes()"),
-        session.run("CALL db.propertyKeys()"),
-      ]);
-
-      const schema = {
-        labels: labelsResult.records.map(r => r.get(0)),
-        relationshipTypes: relationshipsResult.records.map(r => r.get(0)),
-        propertyKeys: propertiesResult.records.map(r => r.get(0)),
+      authorize(this.principal, access);
+      return true;
+    } catch (error) {
+      if (error instanceof AccessDeniedError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async callTool(name: string, args: Record<string, unknown>) {
+    await this.authorizeToolCall(name, args);
+
+    switch (name) {
+      case "neo4j_query":
+        return await this.handleQuery(args);
+      case "neo4j_explain":
+        return await this.handleExplain(args);
+      case "neo4j_schema":
+        return await this.handleSchema(args);
+      case "neo4j_test_connection":
+        return await this.handleTestConnection(args);
+      case "neo4j_node_count":
+        return await this.handleNodeCount(args);
+      case "neo4j_relationship_count":
+        return await this.handleRelationshipCount(args);
+      case "neo4j_database_info":
+        return await this.handleDatabaseInfo(args);
+      case "neo4j_indexes":
+        return await this.handleIndexes(args);
+      case "neo4j_constraints":
+        return await this.handleConstraints(args);
+      case "neo4j_sample_data":
+        return await this.handleSampleData(args);
+      case "neo4j_neighborhood":
+        return await this.handleNeighborhood(args);
+      case "neo4j_shortest_path":
+        return await this.handleShortestPath(args);
+      case "neo4j_fulltext_search":
+        return await this.handleFulltextSearch(args);
+      case "neo4j_vector_search":
+        return await this.handleVectorSearch(args);
+      case "neo4j_node_properties":
+        return await this.handleNodeProperties(args);
+      case "neo4j_relationship_properties":
+        return await this.handleRelationshipProperties(args);
+      case "neo4j_list_databases":
+        return await this.handleListDatabases(args);
+      case "neo4j_refresh_cache":
+        return await this.handleRefreshCache(args);
+      case "neo4j_list_connections":
+        return await this.handleListConnections();
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      if (!this.isAllowed(this.resourceAccess(SCHEMA_URI))) {
+        return { resources: [] };
+      }
+      const { value: schema } = await this.visibleSchema(this.resolveTarget());
+
+      const resources = [
+        {
+          uri: SCHEMA_URI,
+          name: "Graph schema",
+          description: "Labels, relationship types and property keys of the default database",
+          mimeType: "application/json",
+        },
+        ...schema.labels.map(label => ({
+          uri: labelUri(label),
+          name: `Label ${label}`,
+          description: `Properties of nodes labeled ${label}`,
+          mimeType: "application/json",
+        })),
+        ...schema.relationshipTypes.map(type => ({
+          uri: relationshipTypeUri(type),
+          name: `Relationship type ${type}`,
+          description: `Properties of relationships of type ${type}`,
+          mimeType: "application/json",
+        })),
+      ];
+
+      return {
+        resources: resources.filter(resource => resource.uri === SCHEMA_URI || this.isAllowed(this.resourceAccess(resource.uri))),
       };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
 
       return {
-        content: [
+        contents: [
           {
-            type: "text",
-            text: JSON.stringify(schema, null, 2),
+            uri,
+            mimeType: "application/json",
+            text: await this.readResource(uri),
           },
         ],
       };
-    } finally {
-      await session.close();
-    }
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      if (this.principal) {
+        authorize(this.principal, this.resourceAccess(uri));
+      }
+      if (!this.subscriptions.has(uri)) {
+        this.subscriptions.set(uri, undefined);
+      }
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
   }
 
-  private async handleTestConnection() {
-    try {
-      const driver = await this.connectToNeo4j();
-      const session = driver.session();
-      
-      const result = await session.run("RETURN 'Connection successful' as message");
-      await session.close();
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      const prompts: PromptDefinition[] = [...BUILT_IN_PROMPTS, ...config.prompts];
+      return {
+        prompts: prompts
+          .filter(prompt => this.promptAccess(prompt.name, {}).every(access => this.isAllowed(access)))
+          .map(({ name, description, arguments: promptArgs }) => ({ name, description, arguments: promptArgs })),
+      };
+    });
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      const prompt = BUILT_IN_PROMPTS.find(builtIn => builtIn.name === name) ?? config.prompts.find(custom => custom.name === name);
+      if (!prompt) {
+        throw new Error(`Unknown prompt: ${name}`);
+      }
+      const values = promptArguments(prompt, args);
+      if (this.principal) {
+        this.promptAccess(name, values).forEach(access => authorize(this.principal!, access));
+      }
 
       return {
-        content: [
-          {
-            type: "text",
-            text: "Neo4j connection test successful!",
-          },
-        ],
+        description: prompt.description,
+        messages: [{ role: "user" as const, content: { type: "text" as const, text: await this.renderPrompt(name, values) } }],
       };
-    } catch (error) {
-      throw new Error(`Connection test failed: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+
+  // Prompts embed what the matching tools return, so the same policy applies
+  private promptAccess(name: string, args: Record<string, string>): ToolAccess[] {
+    const target = this.resolveTarget();
+    const base = { connection: target.connection, database: target.database };
+    switch (name) {
+      case "explore-label":
+        return [
+          { ...base, tool: "neo4j_schema", labels: [] },
+          { ...base, tool: "neo4j_node_properties", labels: args.label ? [args.label] : [] },
+        ];
+      case "explain-relationships":
+        return [
+          { ...base, tool: "neo4j_schema", labels: [args.from, args.to].filter(label => label !== undefined) },
+          { ...base, tool: "neo4j_relationship_properties", labels: [] },
+        ];
+      default:
+        return [{ ...base, tool: "neo4j_schema", labels: [] }];
     }
   }
 
-  private async handleNodeCount(args: any) {
-    const NodeCountSchema = z.object({
-      label: z.string().optional(),
-    });
+  // Renders a prompt with schema context read live from the default database
+  private async renderPrompt(name: string, args: Record<string, string>): Promise<string> {
+    const target = this.resolveTarget();
 
-    const { label } = NodeCountSchema.parse(args);
-    const driver = await this.connectToNeo4j();
-    const session = driver.session();
+    switch (name) {
+      case "explore-label": {
+        const properties = await this.profileNodeProperties(args.label, target, undefined, 5);
+        const { value: structure } = await this.visibleStructure(target);
+        const patterns = structure.patterns.filter(pattern => pattern.from === properties.label || pattern.to === properties.label);
+        return exploreLabelText(properties.label, properties, patterns);
+      }
+      case "explain-relationships": {
+        const [from, to] = await Promise.all([this.resolveLabel(args.from, target), this.resolveLabel(args.to, target)]);
+        const { value: structure } = await this.visibleStructure(target);
+        const patterns = structure.patterns.filter(
+          pattern => (pattern.from === from.name && pattern.to === to.name) || (pattern.from === to.name && pattern.to === from.name)
+        );
+        const types = [...new Set(patterns.map(pattern => pattern.type))];
+        const relationshipProperties = await Promise.all(types.map(type => this.readRelationshipProperties(type, target)));
+        return explainRelationshipsText(from.name, to.name, patterns, relationshipProperties);
+      }
+      case "write-cypher": {
+        const { value: structure } = await this.visibleStructure(target);
+        return writeCypherText(args.question, structure);
+      }
+    }
 
-    try {
-      let query: string;
-      let result: any;
+    const prompt = config.prompts.find(custom => custom.name === name)!;
+    const values = { ...args };
+    if (templatePlaceholders(prompt.template).includes(SCHEMA_PLACEHOLDER)) {
+      values[SCHEMA_PLACEHOLDER] = jsonBlock((await this.visibleStructure(target)).value);
+    }
+    return renderTemplate(prompt.template, values);
+  }
+
+  private async readResource(uri: string): Promise<string> {
+    return JSON.stringify(await this.readResourceContent(uri), null, 2);
+  }
 
-      if (label) {
-        query = `MATCH (n:${label}) RETURN count(n) as count`;
-        result = await session.run(query);
-      } else {
-        query = "MATCH (n) RETURN count(n) as count";
-        result = await session.run(query);
+  private async readResourceContent(uri: string): Promise<Record<string, unknown>> {
+    if (this.principal) {
+      authorize(this.principal, this.resourceAccess(uri));
+    }
+    const resource = parseResourceUri(uri);
+    const target = this.resolveTarget();
+
+    let content: Record<string, unknown>;
+    switch (resource.kind) {
+      case "schema":
+        content = { ...(await this.visibleSchema(target)).value };
+        break;
+      case "label":
+        content = await this.readNodeProperties(resource.label, target);
+        break;
+      case "relationshipType":
+        content = await this.readRelationshipProperties(resource.type, target);
+        break;
+    }
+
+    return content;
+  }
+
+  // Joins the shared poll of the default database's schema. A new label, relationship
+  // type or property key changes the resource list; subscribed resources are re-read and
+  // reported when their content differs from what was last seen.
+  private joinSchemaWatch() {
+    const target = this.resolveTarget();
+    this.unwatchSchema = watchSchema(target, {
+      read: async () => (await this.cachedSchema(target)).value,
+      checked: changed => this.checkSubscriptions(changed),
+    });
+  }
+
+  private async checkSubscriptions(schemaChanged: boolean) {
+    if (schemaChanged) {
+      await this.server.sendResourceListChanged();
+    }
+
+    for (const [uri, previous] of this.subscriptions) {
+      // Re-reading after the cache expired changes cachedAt, which is not a change
+      const { cachedAt, ...current } = await this.readResourceContent(uri);
+      const content = JSON.stringify(current);
+      if (previous !== undefined && content !== previous) {
+        await this.server.sendResourceUpdated({ uri });
+      }
+      // Skip URIs unsubscribed while the resource was being read
+      if (this.subscriptions.has(uri)) {
+        this.subscriptions.set(uri, content);
       }
+    }
+  }
 
-      const count = result.records[0].get('count').toNumber();
+  private async handleQuery(args: any) {
+    const QuerySchema = TargetArgsSchema.merge(FormatArgsSchema).extend({
+      query: z.string().optional(),
+      parameters: z.record(z.any()).optional().default({}),
+      pageSize: z.number().int().min(1).optional(),
+      cursor: z.string().optional(),
+      timeoutMs: z.number().int().min(1).optional(),
+    });
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              label: label || "all_nodes",
-              count,
-              query,
-            }, null, 2),
-          },
-        ],
-      };
-    } finally {
-      await session.close();
+    const parsed = QuerySchema.parse(args);
+
+    // A cursor carries the query and target of the page it continues
+    const cursor = parsed.cursor ? decodeCursor(parsed.cursor) : undefined;
+    const query = cursor ? cursor.query : parsed.query;
+    const parameters = cursor ? cursor.parameters : parsed.parameters;
+
+    if (query === undefined) {
+      throw new Error("Either 'query' or 'cursor' is required");
     }
+
+    const target = cursor
+      ? this.resolveTarget(cursor.connection, cursor.database)
+      : this.resolveTarget(parsed.connection, parsed.database);
+    const { profile } = this.connections.getProfile(target.connection);
+
+    await this.assertReadOnlyQuery(query, target);
+    const nodeProcedures = config.masking.hiddenLabels.length > 0
+      ? (await this.connections.getProcedures(target.connection))?.nodeYielding
+      : undefined;
+    assertQueryRespectsMasking(config.masking, query, nodeProcedures);
+    await this.assertLabelsNotShared(query, target);
+
+    const offset = cursor ? cursor.offset : 0;
+    const pageSize = Math.min(parsed.pageSize ?? cursor?.pageSize ?? profile.limits.maxRows, profile.limits.maxRows);
+    const redactor = this.createRedactor();
+    const page = await this.readPage(query, parameters, target, {
+      offset,
+      pageSize,
+      maxBytes: profile.limits.maxBytes,
+      timeoutMs: parsed.timeoutMs,
+      redactor,
+    });
+    const redactions = redactor.report();
+
+    const truncated = page.truncatedBy !== undefined;
+    const nextCursor = truncated
+      ? encodeCursor({
+          query,
+          parameters,
+          connection: target.connection,
+          database: target.database,
+          offset: offset + page.rows.length,
+          pageSize,
+        })
+      : undefined;
+
+    return {
+      content: formatResponse(parsed.format, {
+        query,
+        parameters,
+        connection: target.connection,
+        database: target.database,
+        records: page.rows,
+        offset,
+        rowCount: page.rows.length,
+        truncated,
+        ...(truncated
+          ? {
+              truncatedBy: page.truncatedBy,
+              limits: { rows: pageSize, bytes: profile.limits.maxBytes },
+              nextCursor,
+            }
+          : {}),
+        ...(redactions ? { redactions } : {}),
+        summary: {
+          resultConsumedAfter: serializeValue(page.summary.resultConsumedAfter),
+          resultAvailableAfter: serializeValue(page.summary.resultAvailableAfter),
+          counters: page.summary.counters,
+        },
+      }, "records"),
+    };
   }
 
-  private async handleRelationshipCount(args: any) {
-    const RelationshipCountSchema = z.object({
-      type: z.string().optional(),
+  private async handleExplain(args: any) {
+    const ExplainSchema = TargetArgsSchema.extend({
+      query: z.string(),
+      parameters: z.record(z.any()).optional().default({}),
+      mode: z.enum(["explain", "profile"]).optional().default("explain"),
     });
 
-    const { type } = RelationshipCountSchema.parse(args);
-    const driver = await this.connectToNeo4j();
-    const session = driver.session();
+    const { query, parameters, mode, connection, database } = ExplainSchema.parse(args);
 
-    try {
-      let query: string;
-      let result: any;
+    if (mode === "profile" && !config.explain.allowProfile) {
+      throw new Error("PROFILE is disabled on this server because it executes the query. Use mode 'explain', or set explain.allowProfile in the server config.");
+    }
+
+    const target = this.resolveTarget(connection, database);
+    const validation = await this.assertReadOnlyQuery(query, target);
 
-      if (type) {
-        query = `MATCH ()-[r:${type}]-() RETURN count(r) as count`;
-        result = await session.run(query);
-      } else {
-        query = "MATCH ()-[r]-() RETURN count(r) as count";
-        result = await session.run(query);
+    const first = validation.clauses[0];
+    if (first.keyword === "EXPLAIN" || first.keyword === "PROFILE") {
+      throw new Error(`Pass the query without a leading ${first.keyword}; use the mode argument instead`);
+    }
+
+    const explained = `${mode.toUpperCase()} ${query}`;
+    const summary = await this.trackQuery(target, explained, parameters, () => this.executeRead(target, async tx => {
+      // PROFILE runs the query; its rows are discarded since only the plan matters
+      const iterator = tx.run(explained, parameters)[Symbol.asyncIterator]();
+      let next = await iterator.next();
+      while (!next.done) {
+        next = await iterator.next();
       }
 
-      const count = result.records[0].get('count').toNumber();
+      const summary = next.value as ResultSummary;
+      this.assertNoUpdates(summary.counters);
+      return summary;
+    }), () => undefined);
+
+    const profiled = mode === "profile";
+    const rawPlan = profiled ? summary.profile : summary.plan;
+    if (!rawPlan) {
+      throw new Error("Neo4j did not return a query plan");
+    }
+
+    const plan = summarizePlan(rawPlan, profiled);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            query,
+            mode,
+            connection: target.connection,
+            database: target.database,
+            ...(profiled ? { totalDbHits: totalDbHits(plan) } : {}),
+            warnings: findPlanWarnings(plan),
+            notifications: summary.notifications.map(notification => ({
+              code: notification.code,
+              title: notification.title,
+              description: notification.description,
+              severity: notification.severity,
+            })),
+            plan,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleSchema(args: any) {
+    const SchemaArgsSchema = TargetArgsSchema.extend({
+      detail: z.enum(["summary", "structure"]).optional().default("summary"),
+    });
+
+    const { detail, connection, database } = SchemaArgsSchema.parse(args);
+    const target = this.resolveTarget(connection, database);
+    const { value: schema, cachedAt } = detail === "structure" ? await this.visibleStructure(target) : await this.visibleSchema(target);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ ...schema, cachedAt }, null, 2),
+        },
+      ],
+    };
+  }
+
+  // For modules that read metadata without depending on this class
+  private queryRunner(target: QueryTarget): RunQuery {
+    return async (query, parameters = {}) => (await this.runRead(query, parameters, target)).records;
+  }
+
+  private cachedSchema(target: QueryTarget, refresh = false): Promise<Cached<GraphSchema>> {
+    return metadataCache.get(target, "schema", () => this.readSchema(target), refresh);
+  }
+
+  private cachedStructure(target: QueryTarget): Promise<Cached<StructuralSchema>> {
+    return metadataCache.get(target, "structure", () => readStructuralSchema(this.queryRunner(target)));
+  }
+
+  // The schema as clients may see it. Property keys are left out when only nodes of
+  // hidden labels have them.
+  private async visibleSchema(target: QueryTarget): Promise<Cached<GraphSchema>> {
+    const cached = await this.cachedSchema(target);
+    if (cached.value.labels.every(label => this.isLabelVisible(label))) {
+      return cached;
+    }
+
+    const { value: structure } = await this.cachedStructure(target);
+    const keysOf = (entries: { properties: { property: string }[] }[]) =>
+      new Set(entries.flatMap(entry => entry.properties.map(property => property.property)));
+    const hiddenKeys = keysOf(structure.labels.filter(label => !this.isLabelVisible(label.label)));
+    const visibleKeys = keysOf([
+      ...structure.labels.filter(label => this.isLabelVisible(label.label)),
+      ...structure.relationshipTypes,
+    ]);
+
+    return {
+      ...cached,
+      value: {
+        ...cached.value,
+        labels: cached.value.labels.filter(label => this.isLabelVisible(label)),
+        propertyKeys: cached.value.propertyKeys.filter(key => visibleKeys.has(key) || !hiddenKeys.has(key)),
+      },
+    };
+  }
+
+  private async visibleStructure(target: QueryTarget): Promise<Cached<StructuralSchema>> {
+    const cached = await this.cachedStructure(target);
+    return { ...cached, value: withoutLabels(cached.value, label => this.isLabelVisible(label)) };
+  }
+
+  private async readSchema(target: QueryTarget): Promise<GraphSchema> {
+    const [labelsResult, relationshipsResult, propertiesResult] = await Promise.all([
+      this.runRead("CALL db.labels()", {}, target),
+      this.runRead("CALL db.relationshipTypes()", {}, target),
+      this.runRead("CALL db.propertyKeys()", {}, target),
+    ]);
+
+    return {
+      labels: labelsResult.records.map(r => r.get(0)),
+      relationshipTypes: relationshipsResult.records.map(r => r.get(0)),
+      propertyKeys: propertiesResult.records.map(r => r.get(0)),
+    };
+  }
+
+  private async handleRefreshCache(args: any) {
+    const { connection, database } = TargetArgsSchema.parse(args);
+    // Checks the connection and database exist and are allowed
+    const target = this.resolveTarget(connection, database);
+    let dropped = metadataCache.invalidate(target.connection, database === undefined ? undefined : target.database);
+
+    // Without a default database, calls that name no database read the server's home
+    // database and cache it under no name. It may be the database named here.
+    const { profile } = this.connections.getProfile(target.connection);
+    const includesHome = database !== undefined && profile.database === undefined;
+    if (includesHome) {
+      dropped += metadataCache.invalidate(target.connection, "");
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            connection: target.connection,
+            database: database ?? "all",
+            droppedEntries: dropped,
+            ...(includesHome
+              ? { note: "Also dropped the metadata of the server's home database, which is cached without a name because the connection has no default database" }
+              : {}),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleListConnections() {
+    const allowed = this.principal?.policy.connections;
+    const connections = await Promise.all(
+      this.connections.names
+        .filter(name => !allowed || allowed.includes(name))
+        .map(name => this.connections.checkHealth(name))
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ connections }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleTestConnection(args: any) {
+    const { connection, database } = TargetArgsSchema.parse(args);
+    const target = this.resolveTarget(connection, database);
+
+    try {
+      await this.runRead("RETURN 'Connection successful' as message", {}, target);
 
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify({
-              type: type || "all_relationships",
-              count,
-              query,
-            }, null, 2),
+            text: "Neo4j connection test successful!",
           },
         ],
       };
-    } finally {
-      await session.close();
+    } catch (error) {
+      throw new Error(`Connection test failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private async handleDatabaseInfo() {
-    const driver = await this.connectToNeo4j();
-    const session = driver.session();
+  private async handleNodeCount(args: any) {
+    const NodeCountSchema = TargetArgsSchema.extend({
+      label: z.string().optional(),
+    });
 
-    try {
-      const [versionResult, nodeCountResult, relCountResult] = await Promise.all([
-        session.run("CALL dbms.components() YIELD name, versions, edition"),
-        session.run("MATCH (n) RETURN count(n) as nodeCount"),
-        session.run("MATCH ()-[r]-() RETURN count(r) as relCount"),
-      ]);
-
-      const version = versionResult.records[0];
-      const nodeCount = nodeCountResult.records[0].get('nodeCount').toNumber();
-      const relCount = relCountResult.records[0].get('relCount').toNumber();
-
-      const info = {
-        name: version.get('name'),
-        versions: version.get('versions'),
-        edition: version.get('edition'),
-        statistics: {
-          totalNodes: nodeCount,
-          totalRelationships: relCount,
-        },
+    const { label, connection, database } = NodeCountSchema.parse(args);
+    const target = this.resolveTarget(connection, database);
+    const run = this.queryRunner(target);
+
+    let response: Record<string, unknown>;
+    if (label) {
+      const identifier = await this.resolveLabel(label, target);
+      const { value, cachedAt } = await metadataCache.get(target, `count:label:${identifier.name}`, () => countNodes(run, identifier));
+      response = { label: identifier.name, ...value, cachedAt };
+    } else {
+      const { value: statistics, cachedAt } = await metadataCache.get(target, "counts", () => readCountStatistics(run));
+      // The count store cannot tell how many nodes carry a hidden label, so the total would
+      // reveal them
+      const hidesNodes = this.hidesLabels();
+      response = {
+        label: "all_nodes",
+        ...(hidesNodes ? {} : { count: statistics.nodeCount, exact: true }),
+        source: statistics.source,
+        query: statistics.query,
+        byLabel: Object.fromEntries(Object.entries(statistics.labels).filter(([name]) => this.isLabelVisible(name))),
+        note: hidesNodes
+          ? "Nodes with several labels are counted under each of them in byLabel. The total is left out because some labels are hidden"
+          : "Nodes with several labels are counted under each of them in byLabel",
+        cachedAt,
       };
+    }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(info, null, 2),
-          },
-        ],
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleRelationshipCount(args: any) {
+    const RelationshipCountSchema = TargetArgsSchema.extend({
+      type: z.string().optional(),
+      startLabel: z.string().optional(),
+      endLabel: z.string().optional(),
+    });
+
+    const { type, startLabel, endLabel, connection, database } = RelationshipCountSchema.parse(args);
+    const target = this.resolveTarget(connection, database);
+    const run = this.queryRunner(target);
+
+    let response: Record<string, unknown>;
+    if (type || startLabel || endLabel) {
+      const filter = {
+        type: type ? await this.resolveRelationshipType(type, target) : undefined,
+        startLabel: startLabel ? await this.resolveLabel(startLabel, target) : undefined,
+        endLabel: endLabel ? await this.resolveLabel(endLabel, target) : undefined,
+      };
+      const key = `count:type:${JSON.stringify([filter.startLabel?.name, filter.type?.name, filter.endLabel?.name])}`;
+      const { value, cachedAt } = await metadataCache.get(target, key, () => countRelationships(run, filter));
+      response = {
+        type: filter.type?.name ?? "all_relationships",
+        ...(filter.startLabel ? { startLabel: filter.startLabel.name } : {}),
+        ...(filter.endLabel ? { endLabel: filter.endLabel.name } : {}),
+        ...value,
+        cachedAt,
+      };
+    } else {
+      const { value: statistics, cachedAt } = await metadataCache.get(target, "counts", () => readCountStatistics(run));
+      response = {
+        type: "all_relationships",
+        count: statistics.relationshipCount,
+        exact: true,
+        source: statistics.source,
+        query: statistics.query,
+        byType: statistics.relationshipTypes,
+        cachedAt,
       };
-    } finally {
-      await session.close();
     }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
   }
 
-  private async handleIndexes() {
-    const driver = await this.connectToNeo4j();
-    const session = driver.session();
+  private async handleDatabaseInfo(args: any) {
+    const { connection, database } = TargetArgsSchema.parse(args);
+    const target = this.resolveTarget(connection, database);
+
+    const [{ value: version }, { value: statistics, cachedAt }] = await Promise.all([
+      metadataCache.get(target, "version", async () => {
+        const result = await this.runRead("CALL dbms.components() YIELD name, versions, edition", {}, target);
+        const [record] = result.records;
+        return { name: record.get('name'), versions: record.get('versions'), edition: record.get('edition') };
+      }),
+      metadataCache.get(target, "counts", () => readCountStatistics(this.queryRunner(target))),
+    ]);
+
+    const info = {
+      ...version,
+      statistics: {
+        // Left out when it would count nodes of hidden labels, as in neo4j_node_count
+        ...(this.hidesLabels() ? {} : { totalNodes: statistics.nodeCount }),
+        totalRelationships: statistics.relationshipCount,
+        exact: true,
+        source: statistics.source,
+      },
+      cachedAt,
+    };
 
-    try {
-      const result = await session.run("SHOW INDEXES");
-      const indexes = result.records.map(record => {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(info, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleIndexes(args: any) {
+    const { connection, database } = TargetArgsSchema.parse(args);
+    const target = this.resolveTarget(connection, database);
+
+    const { value: indexes, cachedAt } = await metadataCache.get(target, "indexes", async () => {
+      const result = await this.runRead("SHOW INDEXES", {}, target);
+      return result.records.map(record => {
         const obj: any = {};
         record.keys.forEach((key, index) => {
-          obj[key] = this.convertNeo4jValue(record.get(index));
+          obj[key] = serializeValue(record.get(index));
         });
         return obj;
       });
+    });
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({ indexes }, null, 2),
-          },
-        ],
-      };
-    } finally {
-      await session.close();
-    }
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ indexes, cachedAt }, null, 2),
+        },
+      ],
+    };
   }
 
-  private async handleConstraints() {
-    const driver = await this.connectToNeo4j();
-    const session = driver.session();
+  private async handleConstraints(args: any) {
+    const { connection, database } = TargetArgsSchema.parse(args);
+    const target = this.resolveTarget(connection, database);
 
-    try {
-      const result = await session.run("SHOW CONSTRAINTS");
-      const constraints = result.records.map(record => {
+    const { value: constraints, cachedAt } = await metadataCache.get(target, "constraints", async () => {
+      const result = await this.runRead("SHOW CONSTRAINTS", {}, target);
+      return result.records.map(record => {
         const obj: any = {};
         record.keys.forEach((key, index) => {
-          obj[key] = this.convertNeo4jValue(record.get(index));
+          obj[key] = serializeValue(record.get(index));
         });
         return obj;
       });
+    });
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({ constraints }, null, 2),
-          },
-        ],
-      };
-    } finally {
-      await session.close();
-    }
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ constraints, cachedAt }, null, 2),
+        },
+      ],
+    };
   }
 
   private async handleSampleData(args: any) {
-    const SampleDataSchema = z.object({
+    const SampleDataSchema = TargetArgsSchema.merge(FormatArgsSchema).extend({
       label: z.string().optional(),
       relationshipType: z.string().optional(),
       limit: z.number().min(1).max(50).optional().default(5),
     });
 
-    const { label, relationshipType, limit } = SampleDataSchema.parse(args);
-    const driver = await this.connectToNeo4j();
-    const session = driver.session();
+    const { label, relationshipType, limit: requestedLimit, format, connection, database } = SampleDataSchema.parse(args);
+    const target = this.resolveTarget(connection, database);
+    const { profile } = this.connections.getProfile(target.connection);
+    const limit = Math.min(requestedLimit, profile.limits.maxSampleSize);
 
-    try {
-      let query: string;
-      let result: any;
+    if (label && relationshipType) {
+      throw new Error("Please specify either 'label' for nodes or 'relationshipType' for relationships, not both");
+    }
 
-      if (label && relationshipType) {
-        throw new Error("Please specify either 'label' for nodes or 'relationshipType' for relationships, not both");
-      }
+    let query: string;
 
-      if (label) {
-        query = `MATCH (n:${label}) RETURN n LIMIT ${limit}`;
-      } else if (relationshipType) {
-        query = `MATCH (a)-[r:${relationshipType}]->(b) RETURN a, r, b LIMIT ${limit}`;
-      } else {
-        query = `MATCH (n) RETURN n LIMIT ${limit}`;
-      }
+    const redactor = this.createRedactor();
+
+    if (label) {
+      const identifier = await this.resolveLabel(label, target);
+      query = `MATCH (n:${identifier.cypher}) RETURN n LIMIT ${limit}`;
+    } else if (relationshipType) {
+      const identifier = await this.resolveRelationshipType(relationshipType, target);
+      query = `MATCH (a)-[r:${identifier.cypher}]->(b) RETURN a, r, b LIMIT ${limit}`;
+    } else {
+      query = `MATCH (n) RETURN n LIMIT ${limit}`;
+    }
 
-      result = await session.run(query);
-      const samples = result.records.map((record: any) => {
+    const result = await this.runRead(query, {}, target);
+    const samples = result.records
+      .map(record => {
         const obj: any = {};
-        record.keys.forEach((key: string, index: number) => {
-          obj[key] = this.convertNeo4jValue(record.get(index));
+        record.keys.forEach((key, index) => {
+          obj[key] = serializeValue(redactor.mask(record.get(index)));
         });
         return obj;
-      });
+      })
+      // Samples only return nodes and relationships, so null means a hidden node
+      .filter(sample => Object.values(sample).every(value => value !== null));
+    const redactions = redactor.report();
+
+    return {
+      content: formatResponse(format, {
+        query,
+        sampleCount: samples.length,
+        samples,
+        ...(redactions ? { redactions } : {}),
+      }, "samples"),
+    };
+  }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              query,
-              sampleCount: samples.length,
-              samples,
-            }, null, 2),
-          },
-        ],
-      };
-    } finally {
-      await session.close();
+  // Finds the one node a reference points to, masked for output
+  private async resolveNode(reference: NodeReference, target: QueryTarget, redactor: Redactor) {
+    let result;
+    let description: string;
+    if ("elementId" in reference) {
+      description = `with elementId '${reference.elementId}'`;
+      result = await this.runRead("MATCH (n) WHERE elementId(n) = $elementId RETURN n", { elementId: reference.elementId }, target);
+    } else {
+      const identifier = await this.resolveLabel(reference.label, target);
+      if (redactor.actionFor("label", [identifier.name], reference.property)) {
+        throw new Error(`Property '${reference.property}' is masked by the masking policy and cannot be used to find nodes. Use the node's elementId instead.`);
+      }
+      description = `labeled ${identifier.name} with ${reference.property} = ${JSON.stringify(reference.value)}`;
+      result = await this.runRead(
+        `MATCH (n:${identifier.cypher}) WHERE n.${quoteIdentifier(reference.property)} = $value RETURN n LIMIT 2`,
+        { value: reference.value },
+        target
+      );
     }
+
+    if (result.records.length === 0) {
+      throw new Error(`No node ${description}`);
+    }
+    if (result.records.length > 1) {
+      throw new Error(`More than one node ${description}. Use the node's elementId instead.`);
+    }
+
+    const node = result.records[0].get("n");
+    const masked = redactor.mask(node);
+    if (masked === null) {
+      throw new Error(`The node ${description} is hidden by the masking policy or has labels this client may not access`);
+    }
+    return { elementId: node.elementId as string, node: masked };
   }
 
-  private async handleNodeProperties(args: any) {
-    const NodePropertiesSchema = z.object({
-      label: z.string(),
+  private assertTraversalDepth(depth: number, max: number) {
+    if (depth > max) {
+      throw new Error(`Depth ${depth} exceeds the configured maximum traversal depth of ${max}`);
+    }
+  }
+
+  // Expands one hop at a time so that every query is bounded by the node limit, instead
+  // of a variable-length pattern whose row count grows exponentially with depth
+  private async handleNeighborhood(args: any) {
+    const NeighborhoodSchema = TraversalArgsSchema.extend({
+      node: NodeReferenceSchema,
+      depth: z.number().int().min(1).optional().default(1),
+      limit: z.number().int().min(1).optional(),
     });
 
-    const { label } = NodePropertiesSchema.parse(args);
-    
-    // Validate label name to prevent injection
-    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(label)) {
-      throw new Error("Invalid label name. Labels must contain only letters, numbers, and underscores.");
+    const { node, depth, direction, relationshipTypes, limit: requestedLimit, connection, database } = NeighborhoodSchema.parse(args);
+    const target = this.resolveTarget(connection, database);
+    const { profile } = this.connections.getProfile(target.connection);
+    this.assertTraversalDepth(depth, profile.limits.maxTraversalDepth);
+    const limit = Math.min(requestedLimit ?? profile.limits.maxTraversalResults, profile.limits.maxTraversalResults);
+
+    const types = await Promise.all(relationshipTypes.map(type => this.resolveRelationshipType(type, target)));
+    const redactor = this.createRedactor();
+    const start = await this.resolveNode(node, target, redactor);
+
+    const subgraph = new Subgraph<any, any>(limit);
+    subgraph.addNode(start.elementId, serializeValue(start.node));
+
+    const query = [
+      `MATCH (n)${relationshipPattern("r", types, direction)}(m)`,
+      "WHERE elementId(n) IN $frontier AND NOT elementId(r) IN $seen",
+      "RETURN r, m",
+      "LIMIT $limit",
+    ].join(" ");
+
+    // Relationships to hidden neighbours, which are not fetched again on later hops
+    const skipped = new Set<string>();
+    let frontier = [start.elementId];
+    let hops = 0;
+    while (hops < depth && frontier.length > 0 && !subgraph.truncated) {
+      const result = await this.runRead(
+        query,
+        { frontier, seen: [...subgraph.relationships.keys(), ...skipped], limit: neo4j.int(limit) },
+        target
+      );
+      hops++;
+
+      const next: string[] = [];
+      for (const record of result.records) {
+        // Hidden nodes are left out and not expanded
+        const neighbor = redactor.mask(record.get("m"));
+        if (neighbor === null) {
+          skipped.add(record.get("r").elementId);
+          continue;
+        }
+        const isNew = !subgraph.nodes.has(neighbor.elementId);
+        if (!subgraph.addNode(neighbor.elementId, serializeValue(neighbor))) {
+          continue;
+        }
+        if (isNew) {
+          next.push(neighbor.elementId);
+        }
+        const relationship = redactor.mask(record.get("r"));
+        subgraph.addRelationship(relationship.elementId, serializeValue(relationship));
+      }
+
+      // The hop returned as many relationships as allowed, so some may be missing
+      if (result.records.length >= limit) {
+        subgraph.truncated = true;
+      }
+      frontier = next;
     }
+    const redactions = redactor.report();
 
-    const driver = await this.connectToNeo4j();
-    const session = driver.session();
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            start: start.elementId,
+            depth: hops,
+            direction,
+            relationshipTypes: types.map(type => type.name),
+            nodeCount: subgraph.nodes.size,
+            relationshipCount: subgraph.relationships.size,
+            truncated: subgraph.truncated,
+            limits: { depth: profile.limits.maxTraversalDepth, nodes: limit },
+            nodes: [...subgraph.nodes.values()],
+            relationships: [...subgraph.relationships.values()],
+            ...(redactions ? { redactions } : {}),
+          }, null, 2),
+        },
+      ],
+    };
+  }
 
-    try {
-      const query = `
-        MATCH (n:\`${label}\`)
-        UNWIND keys(n) AS key
-        RETURN DISTINCT key, 
-               apoc.meta.cypher.type(n[key]) AS type,
-               count(*) AS frequency
-        ORDER BY frequency DESC, key
-      `;
+  private async handleShortestPath(args: any) {
+    const ShortestPathSchema = TraversalArgsSchema.extend({
+      from: NodeReferenceSchema,
+      to: NodeReferenceSchema,
+      maxDepth: z.number().int().min(1).optional(),
+      all: z.boolean().optional().default(false),
+      limit: z.number().int().min(1).optional(),
+    });
 
-      const result = await session.run(query);
-      const properties = result.records.map(record => ({
-        property: record.get('key'),
-        type: record.get('type'),
-        frequency: record.get('frequency').toNumber(),
-      }));
+    const { from, to, maxDepth: requestedDepth, direction, relationshipTypes, all, limit: requestedLimit, connection, database } =
+      ShortestPathSchema.parse(args);
+    const target = this.resolveTarget(connection, database);
+    const { profile } = this.connections.getProfile(target.connection);
+    const maxDepth = requestedDepth ?? profile.limits.maxTraversalDepth;
+    this.assertTraversalDepth(maxDepth, profile.limits.maxTraversalDepth);
+    const limit = all ? Math.min(requestedLimit ?? profile.limits.maxTraversalResults, profile.limits.maxTraversalResults) : 1;
+
+    const types = await Promise.all(relationshipTypes.map(type => this.resolveRelationshipType(type, target)));
+    const redactor = this.createRedactor();
+    const start = await this.resolveNode(from, target, redactor);
+    const end = await this.resolveNode(to, target, redactor);
+    if (start.elementId === end.elementId) {
+      throw new Error("'from' and 'to' are the same node");
+    }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              label,
-              properties,
-            }, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      // Fallback if APOC is not available
-      try {
-        const fallbackQuery = `
-          MATCH (n:\`${label}\`)
-          UNWIND keys(n) AS key
-          RETURN DISTINCT key, count(*) AS frequency
-          ORDER BY frequency DESC, key
-        `;
-        
-        const result = await session.run(fallbackQuery);
-        const properties = result.records.map(record => ({
-          property: record.get('key'),
-          frequency: record.get('frequency').toNumber(),
-        }));
+    const pattern = relationshipPattern("", types, direction, `*..${maxDepth}`);
+    const query = [
+      "MATCH (a) WHERE elementId(a) = $from",
+      "MATCH (b) WHERE elementId(b) = $to",
+      `MATCH p = ${all ? "allShortestPaths" : "shortestPath"}((a)${pattern}(b))`,
+      "RETURN p",
+      "LIMIT $limit",
+    ].join(" ");
+
+    // One row more than the limit tells whether paths were left out
+    const result = await this.runRead(
+      query,
+      { from: start.elementId, to: end.elementId, limit: neo4j.int(limit + 1) },
+      target
+    );
+    // Paths through hidden nodes are left out
+    const paths = result.records
+      .slice(0, limit)
+      .map(record => redactor.mask(record.get("p")))
+      .filter(path => path !== null);
+    const redactions = redactor.report();
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            from: start.elementId,
+            to: end.elementId,
+            found: paths.length > 0,
+            length: paths.length > 0 ? paths[0].length : null,
+            pathCount: paths.length,
+            truncated: result.records.length > limit,
+            limits: { depth: maxDepth, paths: limit },
+            paths: paths.map(path => serializeValue(path)),
+            ...(redactions ? { redactions } : {}),
+          }, null, 2),
+        },
+      ],
+    };
+  }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({
-                label,
-                properties,
-                note: "Property types not available (APOC not installed)",
-              }, null, 2),
-            },
-          ],
-        };
-      } finally {
-        await session.close();
+  // Looks up an index of the given kind with SHOW INDEXES. Searching an index reveals
+  // what its properties contain, so indexes over hidden labels or masked properties,
+  // and labels the session's policy does not allow, are refused.
+  private async resolveSearchIndex(
+    kind: "full-text index" | "vector index",
+    input: string,
+    target: QueryTarget,
+    redactor: Redactor
+  ): Promise<SearchIndex> {
+    const type = kind === "full-text index" ? "FULLTEXT" : "VECTOR";
+    const result = await this.runRead(
+      "SHOW INDEXES YIELD name, type, entityType, labelsOrTypes, properties, state, options",
+      {},
+      target
+    );
+    const records = result.records.filter(record => record.get("type") === type);
+    const { name } = requireKnownIdentifier(kind, input, records.map(record => record.get("name")));
+    const record = records.find(candidate => candidate.get("name") === name)!;
+
+    const state = record.get("state");
+    if (state !== "ONLINE") {
+      throw new Error(`The ${kind} '${name}' is ${state} and cannot be searched until it is ONLINE`);
+    }
+
+    const dimensions = record.get("options")?.indexConfig?.["vector.dimensions"];
+    const index: SearchIndex = {
+      name,
+      entityType: record.get("entityType"),
+      labelsOrTypes: record.get("labelsOrTypes") ?? [],
+      properties: record.get("properties") ?? [],
+      dimensions: dimensions == null ? undefined : neo4j.integer.toNumber(dimensions),
+    };
+
+    const ruleKind = index.entityType === "NODE" ? "label" : "relationshipType";
+    if (index.entityType === "NODE") {
+      const hidden = index.labelsOrTypes.find(label => config.masking.hiddenLabels.includes(label));
+      if (hidden) {
+        throw new Error(`The ${kind} '${name}' covers label '${hidden}', which is hidden by the masking policy`);
+      }
+    }
+    for (const property of index.properties) {
+      const rule = redactor.actionFor(ruleKind, index.labelsOrTypes, property);
+      if (rule) {
+        throw new Error(`The ${kind} '${name}' covers property '${property}' of '${rule.on}', which is masked by the masking policy`);
       }
-    } finally {
-      await session.close();
     }
+
+    if (this.principal && index.entityType === "NODE") {
+      const context = requestContext.getStore();
+      authorize(this.principal, {
+        tool: context?.toolName ?? "",
+        connection: target.connection,
+        database: target.database,
+        labels: index.labelsOrTypes,
+      });
+    }
+
+    return index;
+  }
+
+  // Converts `YIELD node, score` or `YIELD relationship, score` rows into scored hits.
+  // Hits on hidden nodes are left out.
+  private searchHits(records: any[], index: SearchIndex, redactor: Redactor) {
+    const key = index.entityType === "NODE" ? "node" : "relationship";
+    return records
+      .map(record => ({ score: record.get("score"), [key]: redactor.mask(record.get(key)) }))
+      .filter(hit => hit[key] !== null)
+      .map(hit => ({ score: hit.score, [key]: serializeValue(hit[key]) }));
+  }
+
+  private async handleFulltextSearch(args: any) {
+    const FulltextSearchSchema = TargetArgsSchema.extend({
+      index: z.string(),
+      query: z.string().min(1),
+      limit: z.number().int().min(1).max(100).optional().default(10),
+    });
+
+    const { index: indexName, query: search, limit, connection, database } = FulltextSearchSchema.parse(args);
+    const target = this.resolveTarget(connection, database);
+    const redactor = this.createRedactor();
+    const index = await this.resolveSearchIndex("full-text index", indexName, target, redactor);
+
+    const query = index.entityType === "NODE"
+      ? "CALL db.index.fulltext.queryNodes($index, $search, {limit: $limit}) YIELD node, score RETURN node, score"
+      : "CALL db.index.fulltext.queryRelationships($index, $search, {limit: $limit}) YIELD relationship, score RETURN relationship, score";
+    const result = await this.runRead(query, { index: index.name, search, limit: neo4j.int(limit) }, target);
+    const hits = this.searchHits(result.records, index, redactor);
+    const redactions = redactor.report();
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            index: index.name,
+            entityType: index.entityType,
+            labelsOrTypes: index.labelsOrTypes,
+            properties: index.properties,
+            query: search,
+            hitCount: hits.length,
+            hits,
+            ...(redactions ? { redactions } : {}),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleVectorSearch(args: any) {
+    const VectorSearchSchema = TargetArgsSchema.extend({
+      index: z.string(),
+      embedding: z.array(z.number()).min(1),
+      topK: z.number().int().min(1).max(100).optional().default(10),
+    });
+
+    const { index: indexName, embedding, topK, connection, database } = VectorSearchSchema.parse(args);
+    const target = this.resolveTarget(connection, database);
+    const redactor = this.createRedactor();
+    const index = await this.resolveSearchIndex("vector index", indexName, target, redactor);
+
+    if (index.dimensions !== undefined && index.dimensions !== embedding.length) {
+      throw new Error(`The vector index '${index.name}' has ${index.dimensions} dimensions, but the embedding has ${embedding.length}`);
+    }
+
+    const query = index.entityType === "NODE"
+      ? "CALL db.index.vector.queryNodes($index, $topK, $embedding) YIELD node, score RETURN node, score"
+      : "CALL db.index.vector.queryRelationships($index, $topK, $embedding) YIELD relationship, score RETURN relationship, score";
+    const result = await this.runRead(query, { index: index.name, topK: neo4j.int(topK), embedding }, target);
+    const hits = this.searchHits(result.records, index, redactor);
+    const redactions = redactor.report();
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            index: index.name,
+            entityType: index.entityType,
+            labelsOrTypes: index.labelsOrTypes,
+            property: index.properties[0],
+            topK,
+            hitCount: hits.length,
+            hits,
+            ...(redactions ? { redactions } : {}),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleNodeProperties(args: any) {
+    const NodePropertiesSchema = TargetArgsSchema.merge(ProfileArgsSchema).extend({
+      label: z.string(),
+    });
+
+    const { label, mode, sampleSize, topValues, connection, database } = NodePropertiesSchema.parse(args);
+    const target = this.resolveTarget(connection, database);
+    const properties =
+      mode === "profile"
+        ? await this.profileNodeProperties(label, target, sampleSize, topValues)
+        : await this.readNodeProperties(label, target);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(properties, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async readNodeProperties(label: string, target: QueryTarget) {
+    const identifier = await this.resolveLabel(label, target);
+    const redactor = this.createRedactor();
+
+    const { value, cachedAt } = await metadataCache.get(target, `properties:label:${identifier.name}`, () =>
+      this.readPropertyTypes(`(n:${identifier.cypher})`, "n", target)
+    );
+    const properties = this.maskPropertyList(redactor, "label", identifier.name, value.properties);
+    const redactions = redactor.report();
+
+    return {
+      label: identifier.name,
+      properties,
+      ...(redactions ? { redactions } : {}),
+      ...(value.note ? { note: value.note } : {}),
+      cachedAt,
+    };
+  }
+
+  private async profileNodeProperties(label: string, target: QueryTarget, sampleSize: number | undefined, topValues: number) {
+    const identifier = await this.resolveLabel(label, target);
+    const redactor = this.createRedactor();
+
+    const size = this.profileSampleSize(sampleSize, target);
+    const run = this.queryRunner(target);
+    const { value: sample, cachedAt } = await metadataCache.get(target, `profile:label:${identifier.name}:${size}`, async () => {
+      const { value: total } = await metadataCache.get(target, `count:label:${identifier.name}`, () => countNodes(run, identifier));
+      return sampleEntities(run, `(n:${identifier.cypher})`, "n", size, total.count);
+    });
+    const profile = profileProperties(sample, topValues, entity => redactor.mask(entity));
+
+    return {
+      label: identifier.name,
+      mode: "profile",
+      ...this.maskProfile(redactor, profile),
+      cachedAt,
+    };
   }
 
   private async handleRelationshipProperties(args: any) {
-    const RelationshipPropertiesSchema = z.object({
+    const RelationshipPropertiesSchema = TargetArgsSchema.merge(ProfileArgsSchema).extend({
       type: z.string(),
     });
 
-    const { type } = RelationshipPropertiesSchema.parse(args);
-    const driver = await this.connectToNeo4j();
-    const session = driver.session();
+    const { type, mode, sampleSize, topValues, connection, database } = RelationshipPropertiesSchema.parse(args);
+    const target = this.resolveTarget(connection, database);
+    const properties =
+      mode === "profile"
+        ? await this.profileRelationshipProperties(type, target, sampleSize, topValues)
+        : await this.readRelationshipProperties(type, target);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(properties, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async readRelationshipProperties(type: string, target: QueryTarget) {
+    const identifier = await this.resolveRelationshipType(type, target);
+    const redactor = this.createRedactor();
+
+    const { value, cachedAt } = await metadataCache.get(target, `properties:type:${identifier.name}`, () =>
+      this.readPropertyTypes(`()-[r:${identifier.cypher}]->()`, "r", target)
+    );
+    const properties = this.maskPropertyList(redactor, "relationshipType", identifier.name, value.properties);
+    const redactions = redactor.report();
+
+    return {
+      relationshipType: identifier.name,
+      properties,
+      ...(redactions ? { redactions } : {}),
+      ...(value.note ? { note: value.note } : {}),
+      cachedAt,
+    };
+  }
+
+  private async profileRelationshipProperties(type: string, target: QueryTarget, sampleSize: number | undefined, topValues: number) {
+    const identifier = await this.resolveRelationshipType(type, target);
+    const redactor = this.createRedactor();
+
+    const size = this.profileSampleSize(sampleSize, target);
+    const run = this.queryRunner(target);
+    const { value: sample, cachedAt } = await metadataCache.get(target, `profile:type:${identifier.name}:${size}`, async () => {
+      const filter = { type: identifier };
+      const { value: total } = await metadataCache.get(target, `count:type:${JSON.stringify([undefined, identifier.name, undefined])}`, () =>
+        countRelationships(run, filter)
+      );
+      return sampleEntities(run, `()-[r:${identifier.cypher}]->()`, "r", size, total.count);
+    });
+    const profile = profileProperties(sample, topValues, entity => redactor.mask(entity));
+
+    return {
+      relationshipType: identifier.name,
+      mode: "profile",
+      ...this.maskProfile(redactor, profile),
+      cachedAt,
+    };
+  }
+
+  private profileSampleSize(requested: number | undefined, target: QueryTarget): number {
+    const { maxProfileSampleSize } = this.connections.getProfile(target.connection).profile.limits;
+    return Math.min(requested ?? maxProfileSampleSize, maxProfileSampleSize);
+  }
+
+  // The profile is computed from masked entities, so dropped values are already gone.
+  // Properties the masking policy hashed or masked on any sampled entity, under any of
+  // its labels, keep their fill rate, types and distinct counts; their values are left out
+  private maskProfile(redactor: Redactor, profile: Profile) {
+    const redactions = redactor.report();
+    const masked = new Map(
+      (redactions?.properties ?? []).flatMap(redaction => (redaction.action === "drop" ? [] : [[redaction.property, redaction.action] as const]))
+    );
+    const properties = profile.properties.map(entry => {
+      const action = masked.get(entry.property);
+      if (!action) {
+        return entry;
+      }
+      const { min, max, topValues, examples, ...statistics } = entry;
+      return { ...statistics, masked: action };
+    });
+    return { ...profile, properties, ...(redactions ? { redactions } : {}) };
+  }
 
+  // Property names of the entities `variable` matches in `pattern`, with how often each
+  // occurs and, when APOC is installed, its type
+  private async readPropertyTypes(
+    pattern: string,
+    variable: string,
+    target: QueryTarget
+  ): Promise<{ properties: { property: string; type?: string; frequency: number }[]; note?: string }> {
     try {
       const query = `
-        MATCH ()-[r:${type}]-()
-        UNWIND keys(r) AS key
+        MATCH ${pattern}
+        UNWIND keys(${variable}) AS key
         RETURN DISTINCT key, 
-               apoc.meta.cypher.type(r[key]) AS type,
+               apoc.meta.cypher.type(${variable}[key]) AS type,
                count(*) AS frequency
         ORDER BY frequency DESC, key
       `;
 
-      const result = await session.run(query);
-      const properties = result.records.map(record => ({
-        property: record.get('key'),
-        type: record.get('type'),
-        frequency: record.get('frequency').toNumber(),
-      }));
-
+      const result = await this.runRead(query, {}, target);
       return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              relationshipType: type,
-              properties,
-            }, null, 2),
-          },
-        ],
+        properties: result.records.map(record => ({
+          property: record.get('key'),
+          type: record.get('type'),
+          frequency: record.get('frequency').toNumber(),
+        })),
       };
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       // Fallback if APOC is not available
-      try {
-        const fallbackQuery = `
-          MATCH ()-[r:${type}]-()
-          UNWIND keys(r) AS key
-          RETURN DISTINCT key, count(*) AS frequency
-          ORDER BY frequency DESC, key
-        `;
-        
-        const result = await session.run(fallbackQuery);
-        const properties = result.records.map(record => ({
+      const fallbackQuery = `
+        MATCH ${pattern}
+        UNWIND keys(${variable}) AS key
+        RETURN DISTINCT key, count(*) AS frequency
+        ORDER BY frequency DESC, key
+      `;
+      
+      const result = await this.runRead(fallbackQuery, {}, target);
+      return {
+        properties: result.records.map(record => ({
           property: record.get('key'),
           frequency: record.get('frequency').toNumber(),
-        }));
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({
-                relationshipType: type,
-                properties,
-                note: "Property types not available (APOC not installed)",
-              }, null, 2),
-            },
-          ],
-        };
-      } finally {
-        await session.close();
-      }
-    } finally {
-      await session.close();
+        })),
+        note: "Property types not available (APOC not installed)",
+      };
     }
   }
 
-  private convertNeo4jValue(value: any): any {
-    if (value === null || value === undefined) {
-      return null;
-    }
+  // Drops properties the masking policy drops and marks the ones it hashes or masks
+  private maskPropertyList<T extends { property: string }>(
+    redactor: Redactor,
+    kind: "label" | "relationshipType",
+    name: string,
+    properties: T[]
+  ): (T & { masked?: "hash" | "mask" })[] {
+    return properties.flatMap(entry => {
+      const rule = redactor.actionFor(kind, [name], entry.property);
+      if (!rule) {
+        return [entry];
+      }
+      redactor.note(rule.on, entry.property, rule.action);
+      return rule.action === "drop" ? [] : [{ ...entry, masked: rule.action }];
+    });
+  }
 
-    // Handle Neo4j Integer objects
-    if (value.constructor && value.constructor.name === 'Integer') {
-      return value.toNumber();
-    }
+  private async handleListDatabases(args: any) {
+    const { connection } = ConnectionArgsSchema.parse(args);
+    const { name, profile } = this.connections.getProfile(connection);
 
-    // Handle Node objects
-    if (value.constructor && value.constructor.name === 'Node') {
-      return {
-        identity: value.identity.toNumber(),
-        labels: value.labels,
-        properties: this.convertNeo4jProperties(value.properties),
-      };
-    }
+    // Database administration commands run against the system database
+    const result = await this.runRead(
+      "SHOW DATABASES YIELD name, type, aliases, access, currentStatus, default, home",
+      {},
+      { connection: name, database: "system" }
+    );
 
-    // Handle Relationship objects
-    if (value.constructor && value.constructor.name === 'Relationship') {
-      return {
-        identity: value.identity.toNumber(),
-        start: value.start.toNumber(),
-        end: value.end.toNumber(),
-        type: value.type,
-        properties: this.convertNeo4jProperties(value.properties),
-      };
-    }
+    const databases = result.records
+      .map(record => {
+        const obj: any = {};
+        record.keys.forEach((key, index) => {
+          obj[key] = serializeValue(record.get(index));
+        });
+        return obj;
+      })
+      .filter(database => this.isDatabaseAllowed(profile, database.name))
+      .filter(database => !this.principal?.policy.databases || this.principal.policy.databases.includes(database.name));
 
-    // Handle Path objects
-    if (value.constructor && value.constructor.name === 'Path') {
-      return {
-        start: this.convertNeo4jValue(value.start),
-        end: this.convertNeo4jValue(value.end),
-        segments: value.segments.map((segment: any) => ({
-          start: this.convertNeo4jValue(segment.start),
-          relationship: this.convertNeo4jValue(segment.relationship),
-          end: this.convertNeo4jValue(segment.end),
-        })),
-      };
-    }
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            connection: name,
+            defaultDatabase: profile.database ?? null,
+            databases,
+          }, null, 2),
+        },
+      ],
+    };
+  }
 
-    // Handle arrays
-    if (Array.isArray(value)) {
-      return value.map(item => this.convertNeo4jValue(item));
-    }
+  // Forwards log records to the client as notifications/message. The client picks its
+  // threshold with logging/setLevel and gets the configured level until it does.
+  private setupLogging(): LogSink {
+    const sink: LogSink = {
+      level: config.logging.level,
+      write: record => {
+        // Records logged while handling another session's request belong to that session
+        const owner = requestContext.getStore()?.session;
+        if (owner && owner !== this) {
+          return;
+        }
 
-    // Handle objects
-    if (typeof value === 'object') {
-      return this.convertNeo4jProperties(value);
-    }
+        const details = record.details.map(detail => (detail instanceof Error ? detail.message : detail));
+        this.server
+          .sendLoggingMessage({
+            level: MCP_LOG_LEVELS[record.level],
+            logger: "neo4j-mcp-readonly",
+            data: {
+              message: record.message,
+              ...record.event,
+              ...(details.length > 0 ? { details } : {}),
+            },
+          })
+          // Failing to notify must not itself be logged, or it would loop
+          .catch(() => undefined);
+      },
+    };
 
-    return value;
-  }
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      sink.level = fromMcpLogLevel(request.params.level);
+      return {};
+    });
 
-  private convertNeo4jProperties(properties: any): any {
-    const converted: any = {};
-    for (const [key, value] of Object.entries(properties)) {
-      converted[key] = this.convertNeo4jValue(value);
-    }
-    return converted;
+    return sink;
   }
 
   private setupErrorHandling() {
     this.server.onerror = (error) => {
-      console.error("MCP Server error:", error);
+      logger.error("MCP Server error:", error);
     };
-
-    process.on("SIGINT", async () => {
-      if (this.driver) {
-        await this.driver.close();
-      }
-      await this.server.close();
-      process.exit(0);
-    });
   }
 
-  async start() {
-    const transport = new StdioServerTransport();
+  async connect(transport: Transport) {
+    let removeSink: (() => void) | undefined;
+    // Notifications may only be sent once the client has finished initializing
+    this.server.oninitialized = () => {
+      removeSink = logger.addSink(this.logSink);
+    };
+    // Runs when the transport closes, whether the client or the server ended the session
+    this.server.onclose = () => {
+      removeSink?.();
+      this.unwatchSchema?.();
+    };
+
     await this.server.connect(transport);
-    console.error("Neo4j MCP Server running on stdio");
+    this.joinSchemaWatch();
+  }
+
+  async close() {
+    await this.server.close();
+  }
+}
+
+async function main() {
+  const connections = new ConnectionManager(config.connections, config.defaultConnection);
+  const sessions = new Set<Neo4jMCPServer>();
+  const connect = async (transport: Transport, principal?: Principal) => {
+    const session = new Neo4jMCPServer(connections, principal);
+    await session.connect(transport);
+    sessions.add(session);
+    return {
+      close: async () => {
+        sessions.delete(session);
+        await session.close();
+      },
+    };
+  };
+
+  // Learn which procedures are read-only before the first query needs them. Failures are
+  // logged by the connection manager and retried on first use.
+  connections.getProcedureModes(config.defaultConnection).catch(() => undefined);
+
+  let httpServer: HttpServer | undefined;
+  if (config.server.transport === "http") {
+    const { host, port } = config.server;
+    if (config.auth.tokens.length === 0) {
+      logger.warn("HTTP transport is running without authentication; configure auth.tokens to require tokens");
+    }
+    httpServer = await startHttpTransport({
+      host,
+      port,
+      tokens: config.auth.tokens,
+      connect,
+      health: () => Promise.all(connections.names.map(name => connections.checkHealth(name))),
+    });
+    logger.info(`Neo4j MCP Server listening on http://${host}:${port} (SSE at /sse, health at /healthz)`);
+  } else {
+    await connect(new StdioServerTransport());
+    logger.info("Neo4j MCP Server running on stdio");
   }
+
+  process.on("SIGINT", async () => {
+    httpServer?.close();
+    await Promise.all([...sessions].map(session => session.close()));
+    await connections.closeAll();
+    process.exit(0);
+  });
 }
 
-const server = new Neo4jMCPServer();
-server.start().catch((error) => {
+main().catch((error) => {
   console.error("Failed to start server:", error);
   process.exit(1);
 });
@@ -0,0 +1,93 @@
+import { config, LogLevel } from "./config.js";
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+// Events worth reacting to, with fields a client or log pipeline can filter on
+export type LogEvent =
+  | { event: "connection_established"; connection: string }
+  | { event: "connection_failed"; connection: string; error: string }
+  | {
+      event: "slow_query";
+      tool?: string;
+      connection: string;
+      database?: string;
+      cypher: string;
+      durationMs: number;
+      thresholdMs: number;
+    }
+  | { event: "query_rejected"; tool?: string; cypher: string; reason: string };
+
+export interface LogRecord {
+  level: LogLevel;
+  message: string;
+  event?: LogEvent;
+  details: unknown[];
+}
+
+// A destination besides stderr, such as a connected MCP client. Each sink filters by
+// its own level, which the client may change.
+export interface LogSink {
+  level: LogLevel;
+  write(record: LogRecord): void;
+}
+
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LEVELS.indexOf(level) >= LEVELS.indexOf(threshold);
+}
+
+// Leveled diagnostics. Everything goes to stderr because stdout carries the MCP
+// protocol when the server runs over stdio.
+class Logger {
+  private sinks = new Set<LogSink>();
+
+  constructor(private level: LogLevel) {}
+
+  setLevel(level: LogLevel) {
+    this.level = level;
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return isLevelEnabled(level, this.level);
+  }
+
+  // Returns a function that removes the sink again
+  addSink(sink: LogSink): () => void {
+    this.sinks.add(sink);
+    return () => this.sinks.delete(sink);
+  }
+
+  debug(message: string, ...details: unknown[]) {
+    this.write({ level: "debug", message, details });
+  }
+
+  info(message: string, ...details: unknown[]) {
+    this.write({ level: "info", message, details });
+  }
+
+  warn(message: string, ...details: unknown[]) {
+    this.write({ level: "warn", message, details });
+  }
+
+  error(message: string, ...details: unknown[]) {
+    this.write({ level: "error", message, details });
+  }
+
+  event(level: LogLevel, message: string, event: LogEvent) {
+    this.write({ level, message, event, details: [] });
+  }
+
+  private write(record: LogRecord) {
+    if (this.isEnabled(record.level)) {
+      const event = record.event ? [JSON.stringify(record.event)] : [];
+      console.error(`[${record.level}] ${record.message}`, ...event, ...record.details);
+    }
+
+    for (const sink of this.sinks) {
+      if (isLevelEnabled(record.level, sink.level)) {
+        sink.write(record);
+      }
+    }
+  }
+}
+
+export const logger = new Logger(config.logging.level);
@@ -0,0 +1,245 @@
+import { createHash } from "crypto";
+import { isNode, isPath, isRelationship, Node, Path, PathSegment, Relationship } from "neo4j-driver";
+import { Config } from "./config.js";
+import { tokenize } from "./cypher/lexer.js";
+import { calledFunctions, computedSubscript, referencedLabels, referencedProperties, unlabelledNodeAccess } from "./cypher/references.js";
+import { serializeValue } from "./serialize.js";
+
+export type MaskingPolicy = Config["masking"];
+export type MaskAction = "drop" | "hash" | "mask";
+
+export interface Redaction {
+  // Label or relationship type the rule belongs to
+  on: string;
+  property: string;
+  action: MaskAction;
+  count: number;
+}
+
+// Reported with results so the client knows what it is not seeing
+export interface RedactionReport {
+  hiddenNodes: number;
+  properties: Redaction[];
+}
+
+// When several labels of a node mask the same property, the strongest action wins
+const STRENGTH: Record<MaskAction, number> = { mask: 1, hash: 2, drop: 3 };
+
+// Appended to the neo4j_query description while a masking policy is configured
+export const MASKING_QUERY_NOTE =
+  "A masking policy is configured: read masked properties by returning whole nodes or relationships. While labels are hidden, every node pattern must carry a label that is not hidden, and variable-length relationships, nodes(), startNode(), endNode() and procedures that yield nodes are rejected.";
+
+export function isMaskingEnabled(policy: MaskingPolicy): boolean {
+  return (
+    policy.hiddenLabels.length > 0 ||
+    Object.keys(policy.labels).length > 0 ||
+    Object.keys(policy.relationshipTypes).length > 0
+  );
+}
+
+// Functions that turn whole nodes, relationships or maps into strings or other maps,
+// whose contents mask() can no longer attribute to a label
+const ENTITY_SERIALIZING_FUNCTIONS = ["apoc.convert.", "apoc.map.", "apoc.any.", "apoc.json.", "apoc.diff.", "apoc.hashing."];
+
+function maskedPropertyNames(policy: MaskingPolicy): Set<string> {
+  const rules = [...Object.values(policy.labels), ...Object.values(policy.relationshipTypes)];
+  return new Set(rules.flatMap(rule => Object.keys(rule)));
+}
+
+// Results only carry labels on nodes, so a query that projects a masked property
+// (`RETURN p.email`, `p['email']`), all properties (`properties(p)`) or a serialized
+// entity (`apoc.convert.toJson(p)`) would bypass the policy. Such queries are rejected,
+// as are queries naming a hidden label. Property values read in a query are not checked
+// against hidden labels: `MATCH (n) RETURN n.name` returns names of hidden nodes too.
+// `nodeProcedures` lists the lower-cased procedures of the server that can yield nodes,
+// as in authorize()
+export function assertQueryRespectsMasking(policy: MaskingPolicy, query: string, nodeProcedures?: ReadonlySet<string>) {
+  if (!isMaskingEnabled(policy)) {
+    return;
+  }
+
+  const tokens = tokenize(query);
+  for (const label of referencedLabels(tokens)) {
+    if (policy.hiddenLabels.includes(label)) {
+      throw new Error(`Label '${label}' is hidden by the masking policy`);
+    }
+  }
+
+  const masked = maskedPropertyNames(policy);
+  for (const property of referencedProperties(tokens)) {
+    if (property === "*" && masked.size > 0) {
+      throw new Error(
+        "Queries may not read all properties with properties() or .* while a masking policy is configured. Return the node or relationship instead, so masked properties are redacted."
+      );
+    }
+    if (masked.has(property)) {
+      throw new Error(
+        `Property '${property}' is masked by the masking policy and cannot be read directly. Return the node or relationship instead to get its redacted value.`
+      );
+    }
+  }
+
+  const subscript = computedSubscript(tokens);
+  if (subscript) {
+    throw new Error(
+      `The subscript at line ${subscript.line}, column ${subscript.column} reads a value by a computed key, which may be a masked property. While a masking policy is configured only integer list indexes and slices are allowed.`
+    );
+  }
+
+  for (const name of calledFunctions(tokens)) {
+    if (ENTITY_SERIALIZING_FUNCTIONS.some(prefix => name.toLowerCase().startsWith(prefix))) {
+      throw new Error(
+        `Function '${name}' may not be used while a masking policy is configured, because it reads every property of a node or relationship. Return the node or relationship instead.`
+      );
+    }
+  }
+
+  // Hidden nodes are left out of results, but values a query reads from them are not, so
+  // the query must only reach nodes through patterns with a label
+  if (policy.hiddenLabels.length > 0) {
+    const reason = unlabelledNodeAccess(tokens, nodeProcedures);
+    if (reason) {
+      throw new Error(`Queries may only read nodes through labels that are not hidden by the masking policy, but ${reason}`);
+    }
+  }
+}
+
+// Applies the masking policy to the values of one tool call and tallies what it redacted.
+// `allowedLabels`, from the labels of a session's access policy, hides every node that
+// has a label outside the list, or no label at all.
+export class Redactor {
+  private hiddenNodes = 0;
+  private redactions = new Map<string, Redaction>();
+
+  constructor(private readonly policy: MaskingPolicy, private readonly allowedLabels?: string[]) {}
+
+  isHidden(labels: string[]): boolean {
+    if (labels.some(label => this.policy.hiddenLabels.includes(label))) {
+      return true;
+    }
+    const allowed = this.allowedLabels;
+    return allowed !== undefined && (labels.length === 0 || labels.some(label => !allowed.includes(label)));
+  }
+
+  // Strongest action the rules for any of `names` apply to `property`
+  actionFor(kind: "label" | "relationshipType", names: string[], property: string): { on: string; action: MaskAction } | undefined {
+    const rules = kind === "label" ? this.policy.labels : this.policy.relationshipTypes;
+    let strongest: { on: string; action: MaskAction } | undefined;
+    for (const name of names) {
+      const action = rules[name]?.[property];
+      if (action && (!strongest || STRENGTH[action] > STRENGTH[strongest.action])) {
+        strongest = { on: name, action };
+      }
+    }
+    return strongest;
+  }
+
+  // Records a redaction applied outside mask(), e.g. by the property analysis tools
+  note(on: string, property: string, action: MaskAction, count = 1) {
+    const key = JSON.stringify([on, property, action]);
+    const existing = this.redactions.get(key);
+    if (existing) {
+      existing.count += count;
+    } else {
+      this.redactions.set(key, { on, property, action, count });
+    }
+  }
+
+  // Returns a copy of a driver value with masked properties redacted. Hidden nodes, and
+  // paths through them, become null.
+  mask(value: any): any {
+    if ((!isMaskingEnabled(this.policy) && !this.allowedLabels) || value === null || value === undefined) {
+      return value;
+    }
+
+    if (isNode(value)) {
+      if (this.isHidden(value.labels)) {
+        this.hiddenNodes++;
+        return null;
+      }
+      return new Node(
+        value.identity,
+        value.labels,
+        this.maskProperties("label", value.labels, value.properties),
+        value.elementId
+      );
+    }
+
+    if (isRelationship(value)) {
+      return new Relationship(
+        value.identity,
+        value.start,
+        value.end,
+        value.type,
+        this.maskProperties("relationshipType", [value.type], value.properties),
+        value.elementId,
+        value.startNodeElementId,
+        value.endNodeElementId
+      );
+    }
+
+    if (isPath(value)) {
+      const segments = value.segments.map(segment => {
+        const start = this.mask(segment.start);
+        const end = this.mask(segment.end);
+        return start && end ? new PathSegment(start, this.mask(segment.relationship), end) : null;
+      });
+      const start = this.mask(value.start);
+      const end = this.mask(value.end);
+      if (!start || !end || segments.some(segment => segment === null)) {
+        return null;
+      }
+      return new Path(start, end, segments as PathSegment[]);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.mask(item));
+    }
+
+    // Plain maps from the query; driver values such as temporals and points pass through
+    if (typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.mask(item)]));
+    }
+
+    return value;
+  }
+
+  report(): RedactionReport | undefined {
+    if (this.hiddenNodes === 0 && this.redactions.size === 0) {
+      return undefined;
+    }
+    return { hiddenNodes: this.hiddenNodes, properties: [...this.redactions.values()] };
+  }
+
+  private maskProperties(kind: "label" | "relationshipType", names: string[], properties: Record<string, any>) {
+    const masked: Record<string, any> = {};
+    for (const [property, value] of Object.entries(properties)) {
+      const rule = this.actionFor(kind, names, property);
+      if (!rule) {
+        masked[property] = value;
+        continue;
+      }
+
+      this.note(rule.on, property, rule.action);
+      if (rule.action === "hash") {
+        masked[property] = this.hash(value);
+      } else if (rule.action === "mask") {
+        masked[property] = maskValue(value);
+      }
+    }
+    return masked;
+  }
+
+  private hash(value: unknown): string {
+    const text = typeof value === "string" ? value : JSON.stringify(serializeValue(value));
+    return `sha256:${createHash("sha256").update(this.policy.hashSalt).update(text ?? "").digest("hex")}`;
+  }
+}
+
+// Keeps the last four characters of longer strings so values stay recognizable
+function maskValue(value: unknown): string {
+  if (typeof value === "string" && value.length > 8) {
+    return `${"*".repeat(value.length - 4)}${value.slice(-4)}`;
+  }
+  return "****";
+}
@@ -0,0 +1,95 @@
+// Compact views of the query plans Neo4j returns for EXPLAIN and PROFILE
+
+export interface PlanNode {
+  operator: string;
+  details?: string;
+  estimatedRows?: number;
+  identifiers: string[];
+  // Only present for PROFILE
+  rows?: number;
+  dbHits?: number;
+  pageCacheHits?: number;
+  pageCacheMisses?: number;
+  time?: number;
+  children: PlanNode[];
+}
+
+export interface PlanWarning {
+  operator: string;
+  details?: string;
+  message: string;
+}
+
+// Operators that usually mean a query will not scale, with the advice given for them
+const WARNING_OPERATORS: Record<string, string> = {
+  AllNodesScan: "Scans every node in the database. Add a label to the pattern so the planner can use a label scan or an index.",
+  CartesianProduct: "Combines disconnected patterns row by row. Connect the patterns or split the query.",
+  Eager: "Materializes all intermediate rows before continuing, which can use a lot of memory on large inputs.",
+};
+
+// Neo4j 5 suffixes operator names with the runtime, e.g. "AllNodesScan@neo4j"
+function operatorName(operatorType: string): string {
+  const at = operatorType.indexOf("@");
+  return at === -1 ? operatorType : operatorType.slice(0, at);
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  const number = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+export function summarizePlan(plan: any, profiled: boolean): PlanNode {
+  const args = plan.arguments ?? {};
+  const node: PlanNode = {
+    operator: operatorName(plan.operatorType),
+    details: args.Details ?? undefined,
+    estimatedRows: toNumber(args.EstimatedRows),
+    identifiers: plan.identifiers ?? [],
+    children: [],
+  };
+
+  if (profiled) {
+    node.rows = toNumber(plan.rows);
+    node.dbHits = toNumber(plan.dbHits);
+    if (plan.hasPageCacheStats?.()) {
+      node.pageCacheHits = toNumber(plan.pageCacheHits);
+      node.pageCacheMisses = toNumber(plan.pageCacheMisses);
+    }
+    node.time = toNumber(plan.time);
+  }
+
+  node.children = (plan.children ?? []).map((child: any) => summarizePlan(child, profiled));
+  return node;
+}
+
+export function findPlanWarnings(root: PlanNode): PlanWarning[] {
+  const warnings: PlanWarning[] = [];
+
+  const visit = (node: PlanNode) => {
+    const advice = WARNING_OPERATORS[node.operator];
+    if (advice) {
+      warnings.push({ operator: node.operator, details: node.details, message: advice });
+    }
+
+    // A filter directly on top of a label scan usually means a missing index
+    if (node.operator === "Filter" && node.children.some(child => child.operator === "NodeByLabelScan")) {
+      warnings.push({
+        operator: node.operator,
+        details: node.details,
+        message: "Filters the rows of a label scan. An index on the filtered property would avoid scanning the label.",
+      });
+    }
+
+    node.children.forEach(visit);
+  };
+
+  visit(root);
+  return warnings;
+}
+
+export function totalDbHits(root: PlanNode): number {
+  return (root.dbHits ?? 0) + root.children.reduce((sum, child) => sum + totalDbHits(child), 0);
+}
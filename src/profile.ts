@@ -0,0 +1,267 @@
+import neo4j, { isDate, isDateTime, isInt, isLocalDateTime, isLocalTime, isTime, Node, Relationship } from "neo4j-driver";
+import { isAbortError } from "./errors.js";
+import { logger } from "./logger.js";
+import { normalizeType, RunQuery } from "./schema.js";
+import { serializeValue } from "./serialize.js";
+
+// Longest string, and most list items, shown in example and frequent values
+const PREVIEW_STRING_LENGTH = 100;
+const PREVIEW_LIST_ITEMS = 10;
+const EXAMPLE_COUNT = 3;
+
+export interface ValueCount {
+  value: unknown;
+  count: number;
+}
+
+export interface PropertyProfile {
+  property: string;
+  // Share of the sampled entities that have the property
+  fillRate: number;
+  types: string[];
+  distinct: {
+    inSample: number;
+    // Distinct values among all entities that have the property; exact when the sample
+    // covered every entity
+    estimate: number;
+    exact: boolean;
+  };
+  // Only when every ordered value is a number, or every one is the same temporal type
+  min?: unknown;
+  max?: unknown;
+  topValues: ValueCount[];
+  examples: unknown[];
+}
+
+export interface Profile {
+  sampled: number;
+  total: number;
+  typeSource?: "apoc.meta.cypher.types" | "valueType";
+  properties: PropertyProfile[];
+  query: string;
+  note?: string;
+}
+
+interface SampledEntity {
+  entity: Node | Relationship;
+  types: Map<string, string>;
+}
+
+// The entities read for a profile, before the masking policy applies to them
+export interface ProfileSample {
+  entities: SampledEntity[];
+  total: number;
+  typeSource?: Profile["typeSource"];
+  query: string;
+  note?: string;
+}
+
+// Reads the first `sampleSize` entities `variable` matches in `pattern`. `total` is the
+// number of entities the pattern matches, from the count store, and scales the
+// distinct-value estimates. Types come from APOC when it is installed and otherwise from
+// valueType(), which needs Neo4j 5.13 or later.
+export async function sampleEntities(
+  run: RunQuery,
+  pattern: string,
+  variable: string,
+  sampleSize: number,
+  total: number
+): Promise<ProfileSample> {
+  const sample = `MATCH ${pattern} WITH ${variable} LIMIT $sampleSize`;
+  const parameters = { sampleSize: neo4j.int(sampleSize) };
+  const attempts: { typeSource: Profile["typeSource"]; query: string; types: (types: any) => [string, string][] }[] = [
+    {
+      typeSource: "apoc.meta.cypher.types",
+      query: `${sample} RETURN ${variable} AS entity, apoc.meta.cypher.types(${variable}) AS types`,
+      types: types => Object.entries(types ?? {}),
+    },
+    {
+      typeSource: "valueType",
+      query: `${sample} RETURN ${variable} AS entity, [key IN keys(${variable}) | [key, valueType(${variable}[key])]] AS types`,
+      types: types => types,
+    },
+  ];
+
+  for (const attempt of attempts) {
+    try {
+      const records = await run(attempt.query, parameters);
+      return {
+        entities: records.map(record => ({
+          entity: record.get("entity"),
+          types: new Map(attempt.types(record.get("types")).map(([key, type]) => [key, normalizeType(type)])),
+        })),
+        total,
+        typeSource: attempt.typeSource,
+        query: attempt.query,
+      };
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      logger.debug(`Property types unavailable from ${attempt.typeSource}:`, error);
+    }
+  }
+
+  const query = `${sample} RETURN ${variable} AS entity`;
+  const records = await run(query, parameters);
+  return {
+    entities: records.map(record => ({ entity: record.get("entity"), types: new Map() })),
+    total,
+    query,
+    note: "Property types not available (needs APOC or Neo4j 5.13 or later)",
+  };
+}
+
+// Profiles the sampled entities as `mask` returns them, so that values are counted after
+// the masking policy has applied the rules of every label of a node. Entities `mask`
+// hides are left out.
+export function profileProperties(
+  sample: ProfileSample,
+  topValues: number,
+  mask: (entity: Node | Relationship) => Node | Relationship | null
+): Profile {
+  const { total, typeSource, query, note } = sample;
+
+  const values = new Map<string, unknown[]>();
+  const types = new Map<string, Set<string>>();
+  let sampled = 0;
+  for (const { entity, types: entityTypes } of sample.entities) {
+    const masked = mask(entity);
+    if (!masked) {
+      continue;
+    }
+    sampled++;
+    for (const [key, value] of Object.entries(masked.properties)) {
+      if (!values.has(key)) {
+        values.set(key, []);
+      }
+      values.get(key)!.push(value);
+      const type = entityTypes.get(key);
+      if (type) {
+        types.set(key, (types.get(key) ?? new Set()).add(type));
+      }
+    }
+  }
+
+  const properties = [...values.entries()]
+    .map(([property, propertyValues]) =>
+      profileValues(property, propertyValues, [...(types.get(property) ?? [])].sort(), sampled, total, topValues)
+    )
+    .sort((a, b) => b.fillRate - a.fillRate || a.property.localeCompare(b.property));
+
+  return { sampled, total, ...(typeSource ? { typeSource } : {}), properties, query, ...(note ? { note } : {}) };
+}
+
+function profileValues(
+  property: string,
+  values: unknown[],
+  types: string[],
+  sampled: number,
+  total: number,
+  topValues: number
+): PropertyProfile {
+  const counts = new Map<string, ValueCount>();
+  for (const value of values) {
+    const serialized = serializeValue(value);
+    const key = JSON.stringify(serialized);
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(key, { value: serialized, count: 1 });
+    }
+  }
+
+  const fillRate = sampled > 0 ? values.length / sampled : 0;
+  const exact = sampled >= total;
+  const byFrequency = [...counts.values()].sort((a, b) => b.count - a.count);
+
+  return {
+    property,
+    fillRate: Math.round(fillRate * 10000) / 10000,
+    types,
+    distinct: {
+      inSample: counts.size,
+      estimate: exact ? counts.size : estimateDistinct(byFrequency, Math.round(fillRate * total)),
+      exact,
+    },
+    ...range(values),
+    topValues: byFrequency.slice(0, topValues).map(({ value, count }) => ({ value: preview(value), count })),
+    examples: [...counts.values()].slice(0, EXAMPLE_COUNT).map(({ value }) => preview(value)),
+  };
+}
+
+// Chao1: values seen once or twice in the sample hint at how many were not seen at all.
+// Capped by the number of entities expected to have the property.
+function estimateDistinct(counts: ValueCount[], population: number): number {
+  const seen = counts.length;
+  const once = counts.filter(entry => entry.count === 1).length;
+  const twice = counts.filter(entry => entry.count === 2).length;
+  const unseen = twice > 0 ? (once * once) / (2 * twice) : (once * (once - 1)) / 2;
+  return Math.max(seen, Math.min(Math.round(seen + unseen), population));
+}
+
+// Numbers order by value. Temporal values of one type order by instant when they carry
+// an offset and otherwise by their ISO-8601 text, which sorts chronologically.
+function orderKey(value: unknown): { kind: string; key: number | string } | undefined {
+  if (isInt(value)) {
+    return { kind: "number", key: value.toNumber() };
+  }
+  if (typeof value === "number") {
+    return { kind: "number", key: value };
+  }
+  if (isDateTime(value)) {
+    const text = serializeValue(value) as string;
+    const instant = Date.parse(text.replace(/\[.*\]$/, ""));
+    return Number.isNaN(instant) ? { kind: "datetime-text", key: text } : { kind: "datetime", key: instant };
+  }
+  if (isDate(value)) {
+    return { kind: "date", key: value.toString() };
+  }
+  if (isLocalDateTime(value)) {
+    return { kind: "localdatetime", key: value.toString() };
+  }
+  if (isLocalTime(value)) {
+    return { kind: "localtime", key: value.toString() };
+  }
+  if (isTime(value)) {
+    return { kind: "time", key: value.toString() };
+  }
+  return undefined;
+}
+
+function range(values: unknown[]): { min?: unknown; max?: unknown } {
+  let kind: string | undefined;
+  let min: { key: number | string; value: unknown } | undefined;
+  let max: { key: number | string; value: unknown } | undefined;
+
+  for (const value of values) {
+    const ordered = orderKey(value);
+    if (!ordered) {
+      continue;
+    }
+    if (kind !== undefined && ordered.kind !== kind) {
+      return {};
+    }
+    kind = ordered.kind;
+    if (!min || ordered.key < min.key) {
+      min = { key: ordered.key, value };
+    }
+    if (!max || ordered.key > max.key) {
+      max = { key: ordered.key, value };
+    }
+  }
+
+  return min && max ? { min: serializeValue(min.value), max: serializeValue(max.value) } : {};
+}
+
+// Shortens long strings and lists, such as text bodies and embeddings
+function preview(value: unknown): unknown {
+  if (typeof value === "string" && value.length > PREVIEW_STRING_LENGTH) {
+    return `${value.slice(0, PREVIEW_STRING_LENGTH)}… (${value.length} characters)`;
+  }
+  if (Array.isArray(value) && value.length > PREVIEW_LIST_ITEMS) {
+    return [...value.slice(0, PREVIEW_LIST_ITEMS).map(preview), `… (${value.length} items)`];
+  }
+  return value;
+}
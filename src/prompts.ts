@@ -0,0 +1,114 @@
+// MCP prompts: built-in graph analysis workflows and templates from the config file.
+// Prompts are rendered against the default connection and its default database, like
+// the schema resources.
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description?: string;
+  arguments: PromptArgument[];
+}
+
+export const BUILT_IN_PROMPTS: PromptDefinition[] = [
+  {
+    name: "explore-label",
+    description: "Explore the nodes of one label: their properties, values and relationships",
+    arguments: [{ name: "label", description: "Node label to explore", required: true }],
+  },
+  {
+    name: "explain-relationships",
+    description: "Explain how nodes of two labels are related",
+    arguments: [
+      { name: "from", description: "First node label", required: true },
+      { name: "to", description: "Second node label", required: true },
+    ],
+  },
+  {
+    name: "write-cypher",
+    description: "Write a read-only Cypher query that answers a question about the graph",
+    arguments: [{ name: "question", description: "Question to answer, in plain language", required: true }],
+  },
+];
+
+export const BUILT_IN_PROMPT_NAMES = BUILT_IN_PROMPTS.map(prompt => prompt.name);
+
+// Placeholder in custom templates replaced with the structural schema
+export const SCHEMA_PLACEHOLDER = "schema";
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Names of the {{placeholders}} in a template, in order of first appearance
+export function templatePlaceholders(template: string): string[] {
+  return [...new Set([...template.matchAll(PLACEHOLDER)].map(match => match[1]))];
+}
+
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (_, name: string) => values[name] ?? "");
+}
+
+// Checks the arguments of a prompts/get request against the prompt's definition
+export function promptArguments(prompt: PromptDefinition, args: Record<string, string> = {}): Record<string, string> {
+  const known = new Set(prompt.arguments.map(argument => argument.name));
+  const unknown = Object.keys(args).filter(name => !known.has(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown argument${unknown.length > 1 ? "s" : ""} for prompt '${prompt.name}': ${unknown.join(", ")}`);
+  }
+  const missing = prompt.arguments.filter(argument => argument.required && !args[argument.name]?.trim());
+  if (missing.length > 0) {
+    throw new Error(`Prompt '${prompt.name}' requires: ${missing.map(argument => argument.name).join(", ")}`);
+  }
+  return args;
+}
+
+export function jsonBlock(value: unknown): string {
+  return ["```json", JSON.stringify(value, null, 2), "```"].join("\n");
+}
+
+export function exploreLabelText(label: string, properties: unknown, patterns: unknown): string {
+  return [
+    `Explore the nodes labeled \`${label}\` in this Neo4j graph.`,
+    "",
+    "Profile of their properties, from a sample of the nodes:",
+    jsonBlock(properties),
+    "",
+    `Relationship patterns that start or end at \`${label}\`:`,
+    jsonBlock(patterns),
+    "",
+    `Describe what a \`${label}\` node represents, which properties identify it and which are sparse, and how it connects to the rest of the graph. ` +
+      "Then suggest three read-only Cypher queries that would help understand this data, and run the most useful one with neo4j_query.",
+  ].join("\n");
+}
+
+export function explainRelationshipsText(from: string, to: string, patterns: unknown, relationshipProperties: unknown): string {
+  return [
+    `Explain how \`${from}\` nodes and \`${to}\` nodes are related in this Neo4j graph.`,
+    "",
+    "Relationship patterns directly between the two labels, in either direction:",
+    jsonBlock(patterns),
+    "",
+    "Properties of those relationship types:",
+    jsonBlock(relationshipProperties),
+    "",
+    "Describe what each relationship means, its direction, how many there are and what its properties record. " +
+      "If there is no direct relationship, find the shortest connections with neo4j_shortest_path or neo4j_neighborhood on a few example nodes and explain those instead.",
+  ].join("\n");
+}
+
+export function writeCypherText(question: string, schema: unknown): string {
+  return [
+    "Write a read-only Cypher query for this Neo4j graph that answers:",
+    "",
+    `> ${question.replace(/\r?\n/g, "\n> ")}`,
+    "",
+    "Schema of the graph, with property types, indexes and the relationship patterns that occur:",
+    jsonBlock(schema),
+    "",
+    "Only use labels, relationship types, properties and directions from the schema. Use $parameters for literal values, " +
+      "prefer indexed properties in lookups and add a LIMIT. Check the plan with neo4j_explain, then run the query with neo4j_query and summarize the answer.",
+  ].join("\n");
+}
@@ -0,0 +1,15 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { AuditRecord } from "./audit.js";
+
+// State of the tool call being handled, available to everything it awaits without
+// threading it through each handler
+export interface RequestContext {
+  // The MCP session handling the call, so its logs only reach that session's client
+  session: object;
+  requestId?: string | number;
+  toolName: string;
+  signal: AbortSignal;
+  audit: AuditRecord;
+}
+
+export const requestContext = new AsyncLocalStorage<RequestContext>();
@@ -0,0 +1,36 @@
+// URIs of the schema resources. Resources always describe the default connection and
+// its default database; tools remain the way to inspect other targets.
+
+export const SCHEMA_URI = "neo4j://schema";
+
+export type SchemaResource =
+  | { kind: "schema" }
+  | { kind: "label"; label: string }
+  | { kind: "relationshipType"; type: string };
+
+export function labelUri(label: string): string {
+  return `neo4j://labels/${encodeURIComponent(label)}`;
+}
+
+export function relationshipTypeUri(type: string): string {
+  return `neo4j://relationship-types/${encodeURIComponent(type)}`;
+}
+
+export function parseResourceUri(uri: string): SchemaResource {
+  if (uri === SCHEMA_URI) {
+    return { kind: "schema" };
+  }
+
+  const match = /^neo4j:\/\/(labels|relationship-types)\/(.+)$/.exec(uri);
+  if (match) {
+    let name: string;
+    try {
+      name = decodeURIComponent(match[2]);
+    } catch {
+      throw new Error(`Invalid resource URI: ${uri}`);
+    }
+    return match[1] === "labels" ? { kind: "label", label: name } : { kind: "relationshipType", type: name };
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
@@ -0,0 +1,103 @@
+import { metadataCache } from "./cache.js";
+import { config } from "./config.js";
+import { QueryTarget } from "./connections.js";
+import { logger } from "./logger.js";
+
+// A session's interest in the schema of one target
+export interface SchemaListener {
+  // Reads the schema through the metadata cache
+  read(): Promise<unknown>;
+  // Runs after each check; `changed` is set when the schema differs from the last check
+  checked(changed: boolean): Promise<void>;
+}
+
+// Polls the schema of one connection and database for every session watching it. Each
+// check compares the cached schema with the one seen last, so the database is only read
+// again once the cache entry expires or is dropped.
+class SchemaWatch {
+  private listeners = new Set<SchemaListener>();
+  private timer?: NodeJS.Timeout;
+  private lastSchema?: string;
+  private polling = false;
+
+  constructor(private readonly target: QueryTarget, private readonly intervalMs: number) {}
+
+  get idle(): boolean {
+    return this.listeners.size === 0;
+  }
+
+  add(listener: SchemaListener) {
+    this.listeners.add(listener);
+    if (!this.timer) {
+      this.timer = setInterval(() => this.poll(), this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  remove(listener: SchemaListener) {
+    this.listeners.delete(listener);
+    if (this.idle) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async poll() {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      await this.check();
+    } catch (error) {
+      logger.debug("Schema change check failed:", error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async check() {
+    // Any session can read the schema; they share the cache entry
+    const [reader] = this.listeners;
+    if (!reader) {
+      return;
+    }
+    const schema = JSON.stringify(await reader.read());
+    const changed = this.lastSchema !== undefined && schema !== this.lastSchema;
+    if (changed) {
+      logger.info("Graph schema changed");
+      // Entries of the home database are kept under ""; undefined would drop every database
+      metadataCache.invalidate(this.target.connection, this.target.database ?? "");
+    }
+    this.lastSchema = schema;
+
+    await Promise.all(
+      [...this.listeners].map(listener =>
+        listener.checked(changed).catch(error => logger.debug("Schema change notification failed:", error))
+      )
+    );
+  }
+}
+
+const watches = new Map<string, SchemaWatch>();
+
+// Adds `listener` to the shared schema poll of the target, starting the poll for the
+// first listener. Returns a function that removes it again.
+export function watchSchema(target: QueryTarget, listener: SchemaListener): () => void {
+  const interval = config.resources.schemaPollIntervalMs;
+  if (interval === 0) {
+    return () => undefined;
+  }
+
+  const id = `${target.connection}\u0000${target.database ?? ""}`;
+  const watch = watches.get(id) ?? new SchemaWatch(target, interval);
+  watches.set(id, watch);
+  watch.add(listener);
+
+  return () => {
+    watch.remove(listener);
+    if (watch.idle && watches.get(id) === watch) {
+      watches.delete(id);
+    }
+  };
+}
@@ -0,0 +1,291 @@
+import neo4j, { Node, Record as Neo4jRecord, Relationship } from "neo4j-driver";
+import { displayIdentifier, quoteIdentifier } from "./cypher/identifiers.js";
+import { isAbortError } from "./errors.js";
+import { logger } from "./logger.js";
+
+// Runs one read query against the tool call's target
+export type RunQuery = (query: string, parameters?: Record<string, any>) => Promise<Neo4jRecord[]>;
+
+export interface PropertySchema {
+  property: string;
+  types: string[];
+  indexes: string[];
+  constraints: { name: string; type: string }[];
+}
+
+export interface LabelSchema {
+  label: string;
+  count: number;
+  properties: PropertySchema[];
+}
+
+export interface RelationshipTypeSchema {
+  type: string;
+  count: number;
+  properties: PropertySchema[];
+}
+
+export interface SchemaPattern {
+  pattern: string;
+  from: string;
+  type: string;
+  to: string;
+  // Upper bound from the count store: the smaller of the relationships of this type
+  // leaving a `from` node and those entering a `to` node
+  approximateCount: number;
+}
+
+export interface StructuralSchema {
+  labels: LabelSchema[];
+  relationshipTypes: RelationshipTypeSchema[];
+  patterns: SchemaPattern[];
+  sources: {
+    patterns: "db.schema.visualization" | "sampling";
+    properties: "apoc.meta.schema" | "sampling";
+  };
+}
+
+// Nodes or relationships read when the schema procedures are unavailable. Sent as a
+// driver integer because LIMIT rejects the floats plain JS numbers become.
+const SAMPLE_SIZE = neo4j.int(1000);
+
+interface SchemaEntry {
+  entityType: "NODE" | "RELATIONSHIP";
+  labelsOrTypes: string[];
+  properties: string[];
+  name: string;
+  type: string;
+}
+
+// valueType() reports "STRING NOT NULL"; nullability says nothing about a stored property
+export function normalizeType(type: string): string {
+  return type.replace(/ NOT NULL/g, "");
+}
+
+function patternKey(from: string, type: string, to: string): string {
+  return JSON.stringify([from, type, to]);
+}
+
+export async function readStructuralSchema(run: RunQuery): Promise<StructuralSchema> {
+  const [labelRecords, typeRecords] = await Promise.all([
+    run("CALL db.labels() YIELD label RETURN label ORDER BY label"),
+    run("CALL db.relationshipTypes() YIELD relationshipType RETURN relationshipType ORDER BY relationshipType"),
+  ]);
+  const labels: string[] = labelRecords.map(record => record.get("label"));
+  const types: string[] = typeRecords.map(record => record.get("relationshipType"));
+
+  const [patterns, properties, entries] = await Promise.all([
+    readPatterns(run),
+    readProperties(run),
+    readIndexesAndConstraints(run),
+  ]);
+
+  const counts = await readCounts(run, labels, types, patterns.found);
+
+  const describe = (entityType: SchemaEntry["entityType"], name: string): PropertySchema[] => {
+    const types = properties.found.get(`${entityType}:${name}`) ?? new Map<string, Set<string>>();
+    return [...types.entries()]
+      .map(([property, propertyTypes]) => {
+        const covering = entries.filter(
+          entry => entry.entityType === entityType && entry.labelsOrTypes.includes(name) && entry.properties.includes(property)
+        );
+        return {
+          property,
+          types: [...propertyTypes].sort(),
+          indexes: covering.filter(entry => entry.type === "index").map(entry => entry.name),
+          constraints: covering
+            .filter(entry => entry.type !== "index")
+            .map(entry => ({ name: entry.name, type: entry.type })),
+        };
+      })
+      .sort((a, b) => a.property.localeCompare(b.property));
+  };
+
+  return {
+    labels: labels.map(label => ({
+      label,
+      count: counts.labels.get(label) ?? 0,
+      properties: describe("NODE", label),
+    })),
+    relationshipTypes: types.map(type => ({
+      type,
+      count: counts.types.get(type) ?? 0,
+      properties: describe("RELATIONSHIP", type),
+    })),
+    patterns: patterns.found
+      .map(([from, type, to]) => ({
+        pattern: `(:${displayIdentifier(from)})-[:${displayIdentifier(type)}]->(:${displayIdentifier(to)})`,
+        from,
+        type,
+        to,
+        approximateCount: counts.patterns.get(patternKey(from, type, to)) ?? 0,
+      }))
+      // db.schema.visualization combines labels and types that never occur together
+      .filter(pattern => pattern.approximateCount > 0),
+    sources: {
+      patterns: patterns.source,
+      properties: properties.source,
+    },
+  };
+}
+
+// Leaves out the labels `isVisible` rejects, with their properties and the patterns
+// that start or end at them
+export function withoutLabels(schema: StructuralSchema, isVisible: (label: string) => boolean): StructuralSchema {
+  return {
+    ...schema,
+    labels: schema.labels.filter(label => isVisible(label.label)),
+    patterns: schema.patterns.filter(pattern => isVisible(pattern.from) && isVisible(pattern.to)),
+  };
+}
+
+async function readPatterns(run: RunQuery) {
+  try {
+    const [record] = await run("CALL db.schema.visualization() YIELD nodes, relationships RETURN nodes, relationships");
+    const nodes: Node[] = record.get("nodes");
+    const relationships: Relationship[] = record.get("relationships");
+    const labelOf = new Map(nodes.map(node => [node.elementId, String(node.properties.name)]));
+
+    const found = new Map<string, [string, string, string]>();
+    for (const relationship of relationships) {
+      const from = labelOf.get(relationship.startNodeElementId);
+      const to = labelOf.get(relationship.endNodeElementId);
+      if (from !== undefined && to !== undefined) {
+        found.set(patternKey(from, relationship.type, to), [from, relationship.type, to]);
+      }
+    }
+    return { source: "db.schema.visualization" as const, found: [...found.values()] };
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    logger.debug("db.schema.visualization unavailable, sampling relationships:", error);
+  }
+
+  const records = await run(
+    `MATCH (a)-[r]->(b)
+     WITH a, r, b LIMIT $sampleSize
+     UNWIND labels(a) AS from
+     UNWIND labels(b) AS to
+     RETURN DISTINCT from, type(r) AS type, to`,
+    { sampleSize: SAMPLE_SIZE }
+  );
+  const found = records.map(record => [record.get("from"), record.get("type"), record.get("to")] as [string, string, string]);
+  return { source: "sampling" as const, found };
+}
+
+// Property types keyed by "NODE:<label>" or "RELATIONSHIP:<type>", then property name
+async function readProperties(run: RunQuery) {
+  const found = new Map<string, Map<string, Set<string>>>();
+  const add = (key: string, property: string, types: string[]) => {
+    let properties = found.get(key);
+    if (!properties) {
+      properties = new Map();
+      found.set(key, properties);
+    }
+    const known = properties.get(property) ?? new Set<string>();
+    types.forEach(type => known.add(normalizeType(type)));
+    properties.set(property, known);
+  };
+
+  try {
+    const [record] = await run("CALL apoc.meta.schema({sample: $sampleSize}) YIELD value RETURN value", { sampleSize: SAMPLE_SIZE });
+    const value: Record<string, any> = record.get("value");
+    for (const [name, entry] of Object.entries(value)) {
+      const entityType = entry.type === "relationship" ? "RELATIONSHIP" : "NODE";
+      for (const [property, details] of Object.entries<any>(entry.properties ?? {})) {
+        add(`${entityType}:${name}`, property, [details.type]);
+      }
+    }
+    return { source: "apoc.meta.schema" as const, found };
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    logger.debug("apoc.meta.schema unavailable, sampling properties:", error);
+  }
+
+  const [nodeRecords, relationshipRecords] = await Promise.all([
+    run(
+      `MATCH (n)
+       WITH n LIMIT $sampleSize
+       UNWIND labels(n) AS label
+       UNWIND keys(n) AS key
+       RETURN label, key, collect(DISTINCT valueType(n[key])) AS types`,
+      { sampleSize: SAMPLE_SIZE }
+    ),
+    run(
+      `MATCH ()-[r]->()
+       WITH r LIMIT $sampleSize
+       UNWIND keys(r) AS key
+       RETURN type(r) AS type, key, collect(DISTINCT valueType(r[key])) AS types`,
+      { sampleSize: SAMPLE_SIZE }
+    ),
+  ]);
+  nodeRecords.forEach(record => add(`NODE:${record.get("label")}`, record.get("key"), record.get("types")));
+  relationshipRecords.forEach(record => add(`RELATIONSHIP:${record.get("type")}`, record.get("key"), record.get("types")));
+  return { source: "sampling" as const, found };
+}
+
+async function readIndexesAndConstraints(run: RunQuery): Promise<SchemaEntry[]> {
+  const [indexRecords, constraintRecords] = await Promise.all([
+    run("SHOW INDEXES YIELD name, entityType, labelsOrTypes, properties"),
+    run("SHOW CONSTRAINTS YIELD name, type, entityType, labelsOrTypes, properties"),
+  ]);
+
+  const entry = (record: Neo4jRecord, type: string): SchemaEntry => ({
+    name: record.get("name"),
+    type,
+    entityType: record.get("entityType"),
+    // Token lookup indexes cover every label or type and list none
+    labelsOrTypes: record.get("labelsOrTypes") ?? [],
+    properties: record.get("properties") ?? [],
+  });
+
+  return [
+    ...indexRecords.map(record => entry(record, "index")),
+    ...constraintRecords.map(record => entry(record, record.get("type"))),
+  ];
+}
+
+// All counts come from the count store, which only answers patterns with at most one
+// labeled end, so they are collected in a single UNION query of cheap lookups
+async function readCounts(run: RunQuery, labels: string[], types: string[], patterns: [string, string, string][]) {
+  const branches: string[] = [];
+  labels.forEach((label, i) => branches.push(`MATCH (n:${quoteIdentifier(label)}) RETURN "label" AS kind, ${i} AS i, count(n) AS count`));
+  types.forEach((type, i) => branches.push(`MATCH ()-[r:${quoteIdentifier(type)}]->() RETURN "type" AS kind, ${i} AS i, count(r) AS count`));
+  patterns.forEach(([from, type, to], i) => {
+    branches.push(`MATCH (:${quoteIdentifier(from)})-[r:${quoteIdentifier(type)}]->() RETURN "out" AS kind, ${i} AS i, count(r) AS count`);
+    branches.push(`MATCH ()-[r:${quoteIdentifier(type)}]->(:${quoteIdentifier(to)}) RETURN "in" AS kind, ${i} AS i, count(r) AS count`);
+  });
+
+  const counts = {
+    labels: new Map<string, number>(),
+    types: new Map<string, number>(),
+    patterns: new Map<string, number>(),
+  };
+  if (branches.length === 0) {
+    return counts;
+  }
+
+  const records = await run(branches.join("\nUNION ALL\n"));
+  for (const record of records) {
+    const i = neo4j.integer.toNumber(record.get("i"));
+    const count = neo4j.integer.toNumber(record.get("count"));
+    switch (record.get("kind")) {
+      case "label":
+        counts.labels.set(labels[i], count);
+        break;
+      case "type":
+        counts.types.set(types[i], count);
+        break;
+      default: {
+        const [from, type, to] = patterns[i];
+        const key = patternKey(from, type, to);
+        const known = counts.patterns.get(key);
+        counts.patterns.set(key, known === undefined ? count : Math.min(known, count));
+      }
+    }
+  }
+  return counts;
+}
@@ -0,0 +1,175 @@
+import neo4j, {
+  DateTime,
+  isDate,
+  isDateTime,
+  isDuration,
+  isInt,
+  isLocalDateTime,
+  isLocalTime,
+  isNode,
+  isPath,
+  isPoint,
+  isRelationship,
+  isTime,
+} from "neo4j-driver";
+
+// Converts a value returned by the driver into plain JSON. Driver types are recognized
+// with the driver's own type guards rather than constructor names, which do not survive
+// minification:
+// - integers become numbers, or decimal strings when they do not fit a double exactly
+// - nodes and relationships are identified by element id
+// - temporal values become ISO-8601 strings, including the offset and zone when known
+// - points become { srid, x, y, z }
+// Properties of nodes and relationships are sorted by name so output is stable.
+export function serializeValue(value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (isInt(value)) {
+    return value.inSafeRange() ? value.toNumber() : value.toString();
+  }
+
+  if (typeof value === "bigint") {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+
+  if (isNode(value)) {
+    return {
+      elementId: value.elementId,
+      labels: value.labels,
+      properties: serializeProperties(value.properties),
+    };
+  }
+
+  if (isRelationship(value)) {
+    return {
+      elementId: value.elementId,
+      type: value.type,
+      startElementId: value.startNodeElementId,
+      endElementId: value.endNodeElementId,
+      properties: serializeProperties(value.properties),
+    };
+  }
+
+  if (isPath(value)) {
+    return {
+      start: serializeValue(value.start),
+      end: serializeValue(value.end),
+      length: value.length,
+      segments: value.segments.map(segment => ({
+        start: serializeValue(segment.start),
+        relationship: serializeValue(segment.relationship),
+        end: serializeValue(segment.end),
+      })),
+    };
+  }
+
+  if (isDateTime(value)) {
+    return serializeDateTime(value);
+  }
+
+  if (isDate(value) || isLocalDateTime(value) || isLocalTime(value) || isTime(value) || isDuration(value)) {
+    return value.toString();
+  }
+
+  if (isPoint(value)) {
+    return {
+      srid: serializeValue(value.srid),
+      x: value.x,
+      y: value.y,
+      ...(value.z !== undefined ? { z: value.z } : {}),
+    };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => serializeValue(item));
+  }
+
+  // Byte arrays
+  if (ArrayBuffer.isView(value)) {
+    return Array.from(value as Int8Array);
+  }
+
+  if (typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, serializeValue(item)]));
+  }
+
+  return value;
+}
+
+function serializeProperties(properties: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.keys(properties)
+      .sort()
+      .map(key => [key, serializeValue(properties[key])])
+  );
+}
+
+// Older protocol versions send zoned date-times without their offset, which is then
+// derived from the zone's rules at that local time
+function serializeDateTime(value: DateTime<any>): string {
+  if (value.timeZoneOffsetSeconds !== undefined || value.timeZoneId === undefined) {
+    return value.toString();
+  }
+
+  const offset = zoneOffsetSeconds(value);
+  if (offset === undefined) {
+    return value.toString();
+  }
+  return new neo4j.types.DateTime(
+    value.year,
+    value.month,
+    value.day,
+    value.hour,
+    value.minute,
+    value.second,
+    value.nanosecond,
+    offset,
+    value.timeZoneId
+  ).toString();
+}
+
+function zoneOffsetSeconds(value: DateTime<any>): number | undefined {
+  const toNumber = (part: unknown) => neo4j.integer.toNumber(part as number);
+  const local = Date.UTC(
+    toNumber(value.year),
+    toNumber(value.month) - 1,
+    toNumber(value.day),
+    toNumber(value.hour),
+    toNumber(value.minute),
+    toNumber(value.second)
+  );
+
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone: value.timeZoneId,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+  } catch {
+    // Zone unknown to this runtime
+    return undefined;
+  }
+
+  // Offset of the zone at an instant: how far its wall clock is from UTC
+  const offsetAt = (instant: number) => {
+    const parts = Object.fromEntries(format.formatToParts(new Date(instant)).map(part => [part.type, Number(part.value)]));
+    const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return (wall - instant) / 1000;
+  };
+
+  // The instant is the local time minus the offset, which depends on the instant. The
+  // offsets a day either side of it are the only candidates; like Neo4j, take the earlier
+  // one when a local time repeats as clocks go back, and the later one in a gap.
+  const DAY = 24 * 60 * 60 * 1000;
+  const before = offsetAt(local - DAY);
+  const after = offsetAt(local + DAY);
+  return [before, after].find(offset => offsetAt(local - offset * 1000) === offset) ?? after;
+}
@@ -0,0 +1,47 @@
+import { Identifier } from "./cypher/identifiers.js";
+
+export type TraversalDirection = "outgoing" | "incoming" | "both";
+
+// `-[r:A|B*1..3]->` for the given direction, types and optional length
+export function relationshipPattern(
+  variable: string,
+  types: Identifier[],
+  direction: TraversalDirection,
+  length = ""
+): string {
+  const left = direction === "incoming" ? "<-" : "-";
+  const right = direction === "outgoing" ? "->" : "-";
+  const typeFilter = types.length > 0 ? `:${types.map(type => type.cypher).join("|")}` : "";
+  return `${left}[${variable}${typeFilter}${length}]${right}`;
+}
+
+// Nodes and relationships collected hop by hop, keyed by element id. Collection stops
+// at `maxNodes`; relationships are only kept when both of their nodes are.
+export class Subgraph<NodeValue, RelationshipValue> {
+  readonly nodes = new Map<string, NodeValue>();
+  readonly relationships = new Map<string, RelationshipValue>();
+  truncated = false;
+
+  constructor(private readonly maxNodes: number) {}
+
+  get full(): boolean {
+    return this.nodes.size >= this.maxNodes;
+  }
+
+  // Returns false when the node was left out because the subgraph is full
+  addNode(elementId: string, node: NodeValue): boolean {
+    if (this.nodes.has(elementId)) {
+      return true;
+    }
+    if (this.full) {
+      this.truncated = true;
+      return false;
+    }
+    this.nodes.set(elementId, node);
+    return true;
+  }
+
+  addRelationship(elementId: string, relationship: RelationshipValue) {
+    this.relationships.set(elementId, relationship);
+  }
+}
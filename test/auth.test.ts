@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AccessDeniedError, authorize, Principal, ToolAccess } from "../src/auth.js";
+
+const access = (query: string, overrides: Partial<ToolAccess> = {}): ToolAccess => ({
+  tool: "neo4j_query",
+  connection: "default",
+  database: "neo4j",
+  labels: [],
+  query,
+  ...overrides,
+});
+
+const denied = (principal: Principal, toolAccess: ToolAccess, message: RegExp) =>
+  assert.throws(() => authorize(principal, toolAccess), (error: unknown) => error instanceof AccessDeniedError && message.test(error.message));
+
+describe("authorize", () => {
+  it("allows everything without a policy", () => {
+    assert.doesNotThrow(() => authorize({ name: "admin", policy: {} }, access("MATCH (n) RETURN n")));
+  });
+
+  it("checks tools, connections, databases and procedures", () => {
+    const principal: Principal = {
+      name: "analytics",
+      policy: { tools: ["neo4j_query"], connections: ["default"], databases: ["neo4j"], procedures: ["db.labels"] },
+    };
+    assert.doesNotThrow(() => authorize(principal, access("CALL db.labels()")));
+    denied(principal, access("RETURN 1", { tool: "neo4j_schema" }), /tool 'neo4j_schema'/);
+    denied(principal, access("RETURN 1", { connection: "other" }), /connection 'other'/);
+    denied(principal, access("RETURN 1", { database: "movies" }), /database 'movies'/);
+    // Database names are case-insensitive, as in the connection's allowedDatabases
+    assert.doesNotThrow(() => authorize(principal, access("USE Neo4j RETURN 1", { database: "NEO4J" })));
+    denied(principal, access("USE movies MATCH (n) RETURN n"), /database 'movies'/);
+    denied(principal, access("CALL db.propertyKeys()"), /procedure 'db.propertyKeys'/);
+  });
+
+  describe("with a label policy", () => {
+    const principal: Principal = { name: "public", policy: { labels: ["Public", "Company"] } };
+
+    const allowed = [
+      "MATCH (n:Public) RETURN n",
+      "MATCH (n:Public {name: $name}) RETURN n.name",
+      "MATCH (n:Public WHERE n.age > 30) RETURN n",
+      "OPTIONAL MATCH (n:Public)-[:WORKS_AT]->(c:Company) RETURN n, c",
+      "MATCH (n:Public) MATCH (n)-->(m:Company) RETURN m",
+      "MATCH (n:Public) WHERE EXISTS { MATCH (n)-->(:Company) } RETURN n",
+      "MATCH (n:Public) RETURN [(n)-->(c:Company) | c.name]",
+      "MATCH p = shortestPath((a:Public)-[:KNOWS]-(b:Company)) RETURN p",
+      "MATCH (n:Public) RETURN count(n), labels(n), n.x <> 1, n.y * 2",
+      "MATCH (n:Public) CALL (n) { RETURN 1 AS x } RETURN x",
+    ];
+    for (const query of allowed) {
+      it(`allows ${JSON.stringify(query)}`, () => {
+        assert.doesNotThrow(() => authorize(principal, access(query)));
+      });
+    }
+
+    const rejected: [string, RegExp][] = [
+      ["MATCH (n:Secret) RETURN n", /label 'Secret'/],
+      ["MATCH (n:Public|Secret) RETURN n", /label 'Secret'/],
+      ["MATCH (n) RETURN n", /node pattern at line 1, column 7/],
+      ["MATCH (n) WHERE 'Secret' IN labels(n) RETURN n", /node pattern at line 1, column 7/],
+      ["MATCH (n) WHERE n:Public RETURN n.name", /node pattern at line 1, column 7/],
+      ["MATCH (n) WHERE n:Public OR true RETURN n.name", /node pattern/],
+      ["MATCH (n:Public)-->(m) RETURN m.name", /node pattern at line 1, column 20/],
+      ["MATCH (n:Public)-->() RETURN n", /node pattern at line 1, column 20/],
+      ["MATCH ({name: 'x'}) RETURN 1", /node pattern/],
+      ["MATCH (n:Public) WITH 1 AS x MATCH (n) RETURN n.name", /node pattern at line 1, column 36/],
+      ["MATCH (n:Public WHERE m:Public OR true), (m) RETURN m.name", /node pattern at line 1, column 42/],
+      ["MATCH (n:Public) RETURN COUNT { (n)-->() }", /node pattern/],
+      ["MATCH (n:%) RETURN n", /'%' at line 1, column 10/],
+      ["MATCH (n:!Public) RETURN n", /'!' at line 1, column 10/],
+      ["MATCH p=(a:Public)-[*]->(b:Public) UNWIND nodes(p) AS x RETURN x.ssn", /variable-length relationship at line 1, column 21/],
+      ["MATCH p = shortestPath((a:Public)-[*]-(b:Company)) RETURN p", /variable-length relationship/],
+      ["MATCH (a:Public)-[:KNOWS]->{1,3}(b:Public) RETURN b.name", /variable-length relationship at line 1, column 28/],
+      ["MATCH p=(a:Public)-[:KNOWS]->(b:Public) UNWIND nodes(p) AS x RETURN x.ssn", /nodes\(\) at line 1/],
+      ["MATCH (a:Public)-[r]->(b:Public) RETURN startNode(r).ssn, endNode(r).ssn", /startNode\(\) at line 1/],
+      ["CALL db.index.fulltext.queryNodes('idx','x') YIELD node RETURN node.ssn", /CALL db.index.fulltext.queryNodes/],
+      ["MATCH (a:Public) CALL apoc.path.subgraphNodes(a, {}) YIELD node RETURN node.ssn", /CALL apoc.path.subgraphNodes/],
+    ];
+    for (const [query, message] of rejected) {
+      it(`rejects ${JSON.stringify(query)}`, () => {
+        denied(principal, access(query), message);
+      });
+    }
+
+    it("allows procedures the server reports cannot yield nodes", () => {
+      const nodeProcedures = new Set(["db.index.fulltext.querynodes"]);
+      assert.doesNotThrow(() => authorize(principal, access("CALL db.labels() YIELD label RETURN label", { nodeProcedures })));
+      denied(principal, access("CALL db.index.fulltext.queryNodes('idx','x') YIELD node RETURN node.ssn", { nodeProcedures }), /can yield nodes/);
+      // Without the server's list, every procedure may yield nodes
+      denied(principal, access("CALL db.labels() YIELD label RETURN label"), /CALL db.labels/);
+    });
+
+    it("checks label arguments", () => {
+      assert.doesNotThrow(() => authorize(principal, access("", { tool: "neo4j_node_count", labels: ["Public"], query: undefined })));
+      denied(principal, access("", { tool: "neo4j_node_count", labels: ["Secret"], query: undefined }), /label 'Secret'/);
+    });
+  });
+});
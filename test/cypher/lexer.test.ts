@@ -0,0 +1,178 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CypherSyntaxError, tokenize } from "../../src/cypher/lexer.js";
+
+const types = (source: string) => tokenize(source).map(token => `${token.type}:${token.value}`);
+
+describe("tokenize", () => {
+  it("splits clauses, names and symbols", () => {
+    assert.deepEqual(types("MATCH (n:Person)-[:KNOWS]->(m) RETURN n.name"), [
+      "identifier:MATCH",
+      "symbol:(",
+      "identifier:n",
+      "symbol::",
+      "identifier:Person",
+      "symbol:)",
+      "symbol:-",
+      "symbol:[",
+      "symbol::",
+      "identifier:KNOWS",
+      "symbol:]",
+      "symbol:->",
+      "symbol:(",
+      "identifier:m",
+      "symbol:)",
+      "identifier:RETURN",
+      "identifier:n",
+      "symbol:.",
+      "identifier:name",
+    ]);
+  });
+
+  it("prefers the longest symbol", () => {
+    assert.deepEqual(types("a <> b <= c >= d =~ e <- f .. g += h :: i || j != k"), [
+      "identifier:a",
+      "symbol:<>",
+      "identifier:b",
+      "symbol:<=",
+      "identifier:c",
+      "symbol:>=",
+      "identifier:d",
+      "symbol:=~",
+      "identifier:e",
+      "symbol:<-",
+      "identifier:f",
+      "symbol:..",
+      "identifier:g",
+      "symbol:+=",
+      "identifier:h",
+      "symbol:::",
+      "identifier:i",
+      "symbol:||",
+      "identifier:j",
+      "symbol:!=",
+      "identifier:k",
+    ]);
+  });
+
+  it("keeps keywords inside strings as one string token", () => {
+    assert.deepEqual(types(`RETURN 'SET n.x = 1', "DELETE n"`), [
+      "identifier:RETURN",
+      "string:SET n.x = 1",
+      "symbol:,",
+      "string:DELETE n",
+    ]);
+  });
+
+  it("keeps escaped quotes inside strings", () => {
+    const [, string] = tokenize(String.raw`RETURN 'it\'s // not a comment'`);
+    assert.equal(string.type, "string");
+    assert.equal(string.value, String.raw`it\'s // not a comment`);
+    assert.equal(string.text, String.raw`'it\'s // not a comment'`);
+  });
+
+  it("drops line and block comments", () => {
+    assert.deepEqual(types("MATCH (n) // CREATE (m)\n/* SET n.x = 1\nDELETE n */ RETURN n"), [
+      "identifier:MATCH",
+      "symbol:(",
+      "identifier:n",
+      "symbol:)",
+      "identifier:RETURN",
+      "identifier:n",
+    ]);
+  });
+
+  it("reads backtick identifiers with doubled backticks", () => {
+    const tokens = tokenize("MATCH (n:`Weird``Label CREATE`) RETURN n");
+    const label = tokens.find(token => token.type === "quotedIdentifier");
+    assert.equal(label?.value, "Weird`Label CREATE");
+    assert.equal(label?.text, "`Weird``Label CREATE`");
+  });
+
+  it("reads plain and backtick-quoted parameters", () => {
+    assert.deepEqual(types("RETURN $name, $`odd name`, $0"), [
+      "identifier:RETURN",
+      "parameter:name",
+      "symbol:,",
+      "parameter:odd name",
+      "symbol:,",
+      "parameter:0",
+    ]);
+  });
+
+  it("reads numbers in every notation", () => {
+    assert.deepEqual(types("RETURN 1, 1_000, 1.5, 2e10, 3.1E-4, 0x1F, 0o17"), [
+      "identifier:RETURN",
+      "number:1",
+      "symbol:,",
+      "number:1_000",
+      "symbol:,",
+      "number:1.5",
+      "symbol:,",
+      "number:2e10",
+      "symbol:,",
+      "number:3.1E-4",
+      "symbol:,",
+      "number:0x1F",
+      "symbol:,",
+      "number:0o17",
+    ]);
+  });
+
+  it("reads range literals as numbers around '..'", () => {
+    assert.deepEqual(types("[*1..3]"), ["symbol:[", "symbol:*", "number:1", "symbol:..", "number:3", "symbol:]"]);
+  });
+
+  it("reads unicode identifiers", () => {
+    assert.deepEqual(types("MATCH (städte:Ciudad_2) RETURN städte"), [
+      "identifier:MATCH",
+      "symbol:(",
+      "identifier:städte",
+      "symbol::",
+      "identifier:Ciudad_2",
+      "symbol:)",
+      "identifier:RETURN",
+      "identifier:städte",
+    ]);
+  });
+
+  it("records line and column of every token", () => {
+    const tokens = tokenize("MATCH (n)\n  WHERE n.x = 'a\nb'\nRETURN n");
+    const where = tokens.find(token => token.value === "WHERE");
+    const string = tokens.find(token => token.type === "string");
+    const returns = tokens.find(token => token.value === "RETURN");
+    assert.deepEqual([where?.line, where?.column, where?.offset], [2, 3, 12]);
+    assert.deepEqual([string?.line, string?.column], [2, 15]);
+    assert.deepEqual([returns?.line, returns?.column], [4, 1]);
+  });
+
+  it("ignores odd whitespace between tokens", () => {
+    assert.deepEqual(types("CaLL \t\r\n {\u00a0RETURN 1 }"), [
+      "identifier:CaLL",
+      "symbol:{",
+      "identifier:RETURN",
+      "number:1",
+      "symbol:}",
+    ]);
+  });
+
+  it("returns no tokens for whitespace and comments only", () => {
+    assert.deepEqual(tokenize("  // nothing\n /* here */ "), []);
+  });
+
+  for (const [source, message] of [
+    ["RETURN 'open", "Unterminated string literal at line 1, column 8"],
+    ['RETURN "open', "Unterminated string literal at line 1, column 8"],
+    ["MATCH (n:`Open) RETURN n", "Unterminated quoted identifier at line 1, column 10"],
+    ["RETURN $`open", "Unterminated quoted parameter at line 1, column 9"],
+    ["RETURN 1\n/* open", "Unterminated block comment at line 2, column 1"],
+    ["RETURN $ + 1", "Expected a parameter name after '$' at line 1, column 8"],
+  ]) {
+    it(`rejects ${JSON.stringify(source)}`, () => {
+      assert.throws(
+        () => tokenize(source),
+        (error: unknown) => error instanceof CypherSyntaxError && error.message === message
+      );
+    });
+  }
+});
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { describe, it } from "node:test";
+import { parseClauses, validateReadOnlyQuery } from "../../src/cypher/validator.js";
+import { tokenize } from "../../src/cypher/lexer.js";
+
+interface RejectedFixture {
+  query: string;
+  // Text the rejection reason must contain, usually the offending clause and its position
+  reason: string;
+}
+
+const fixture = <T>(name: string): T =>
+  JSON.parse(readFileSync(new URL(`../fixtures/cypher/${name}`, import.meta.url), "utf8")) as T;
+
+const accepted = fixture<string[]>("accepted.json");
+const rejected = fixture<RejectedFixture[]>("rejected.json");
+
+describe("validateReadOnlyQuery", () => {
+  describe("accepts read queries", () => {
+    for (const query of accepted) {
+      it(JSON.stringify(query), () => {
+        const result = validateReadOnlyQuery(query);
+        assert.equal(result.valid, true, result.valid ? undefined : result.reason);
+      });
+    }
+  });
+
+  describe("rejects writes, administration and malformed queries", () => {
+    for (const { query, reason } of rejected) {
+      it(JSON.stringify(query), () => {
+        const result = validateReadOnlyQuery(query);
+        assert.equal(result.valid, false, "query was accepted");
+        assert.ok(!result.valid && result.reason.includes(reason), `reason was: ${!result.valid && result.reason}`);
+      });
+    }
+  });
+
+  it("reports the offending clause", () => {
+    const result = validateReadOnlyQuery("MATCH (n)\nWHERE n.x = 'SET'\n  DETACH DELETE n");
+    assert.equal(result.valid, false);
+    assert.deepEqual(!result.valid && result.clause, {
+      keyword: "DETACH DELETE",
+      offset: 30,
+      line: 3,
+      column: 3,
+      depth: 0,
+    });
+  });
+
+  it("allows procedures from a custom allowlist", () => {
+    const allowedProcedures = ["custom.read", "vendor."];
+    assert.equal(validateReadOnlyQuery("CALL custom.read()", { allowedProcedures }).valid, true);
+    assert.equal(validateReadOnlyQuery("CALL custom.read.all()", { allowedProcedures }).valid, true);
+    assert.equal(validateReadOnlyQuery("CALL vendor.anything()", { allowedProcedures }).valid, true);
+    assert.equal(validateReadOnlyQuery("CALL custom.readWrite()", { allowedProcedures }).valid, false);
+    assert.equal(validateReadOnlyQuery("CALL db.labels()", { allowedProcedures }).valid, false);
+  });
+
+  it("checks procedure modes reported by the server", () => {
+    const procedureModes = new Map([
+      ["db.labels", "READ"],
+      ["db.index.fulltext.queryNodes", "SCHEMA"],
+      ["apoc.meta.schema", "DEFAULT"],
+      ["apoc.path.expand", "WRITE"],
+      ["apoc.meta.stats", "DBMS"],
+    ]);
+    assert.equal(validateReadOnlyQuery("CALL db.labels()", { procedureModes }).valid, true);
+    assert.equal(validateReadOnlyQuery("CALL db.index.fulltext.queryNodes('idx', 'x')", { procedureModes }).valid, true);
+    // APOC procedures that declare no mode are reported as DEFAULT and run as READ
+    assert.equal(validateReadOnlyQuery("CALL apoc.meta.schema()", { procedureModes }).valid, true);
+
+    const unknown = validateReadOnlyQuery("CALL db.propertyKeys()", { procedureModes });
+    assert.ok(!unknown.valid && unknown.reason.includes("the server has no procedure with this name"));
+
+    const writable = validateReadOnlyQuery("CALL apoc.path.expand()", { procedureModes });
+    assert.ok(!writable.valid && writable.reason.includes("runs in WRITE mode"));
+
+    const dbms = validateReadOnlyQuery("CALL apoc.meta.stats()", { procedureModes });
+    assert.ok(!dbms.valid && dbms.reason.includes("runs in DBMS mode"));
+  });
+});
+
+describe("parseClauses", () => {
+  const keywords = (query: string) => parseClauses(tokenize(query)).map(clause => `${clause.keyword}@${clause.depth}`);
+
+  it("lists clauses with their nesting depth", () => {
+    assert.deepEqual(keywords("MATCH (n) CALL { WITH n OPTIONAL MATCH (n)-->(m) RETURN m } RETURN n ORDER BY n.x"), [
+      "MATCH@0",
+      "CALL@0",
+      "WITH@1",
+      "OPTIONAL MATCH@1",
+      "RETURN@1",
+      "RETURN@0",
+      "ORDER BY@0",
+    ]);
+  });
+
+  it("names the procedure of CALL clauses", () => {
+    const [call] = parseClauses(tokenize("CALL `db`.labels() YIELD label"));
+    assert.equal(call.procedure, "db.labels");
+  });
+
+  it("names the graph of USE clauses", () => {
+    assert.equal(parseClauses(tokenize("USE movies MATCH (n) RETURN n"))[0].graph, "movies");
+    assert.equal(parseClauses(tokenize("USE graph.byName($g) MATCH (n) RETURN n"))[0].graph, undefined);
+  });
+});
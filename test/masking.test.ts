@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import neo4j from "neo4j-driver";
+import { assertQueryRespectsMasking, MaskingPolicy, Redactor } from "../src/masking.js";
+
+const policy: MaskingPolicy = {
+  labels: { Person: { email: "hash", phone: "mask" }, Account: { iban: "drop" } },
+  relationshipTypes: { TRANSFERRED: { reference: "mask" } },
+  hiddenLabels: ["Secret"],
+  hashSalt: "salt",
+};
+
+const node = (labels: string[], properties: Record<string, unknown>) =>
+  new neo4j.types.Node(neo4j.int(1), labels, properties, "4:db:1");
+
+describe("assertQueryRespectsMasking", () => {
+  const accepted = [
+    "MATCH (p:Person) RETURN p",
+    "MATCH (p:Person) RETURN p.name, labels(p)[0]",
+    "MATCH (p:Person) RETURN collect(p.name)[..10], [1, 2, 3][-1], range(0, 9)[2..4]",
+    "MATCH (p:Person) WHERE p.age IN [30, 40] RETURN [(p)-->(x:Account) | x.name]",
+    "UNWIND [1, 2] AS x RETURN x",
+    "MATCH (p:Person)-[r:TRANSFERRED]->(a:Account) RETURN p, r, a",
+    "RETURN apoc.text.join(['a', 'b'], ',')",
+  ];
+  for (const query of accepted) {
+    it(`accepts ${JSON.stringify(query)}`, () => {
+      assert.doesNotThrow(() => assertQueryRespectsMasking(policy, query));
+    });
+  }
+
+  const rejected: [string, RegExp][] = [
+    ["MATCH (s:Secret) RETURN s", /Label 'Secret' is hidden/],
+    ["MATCH (n) WHERE n:Secret RETURN n", /Label 'Secret' is hidden/],
+    ["MATCH (p:Person) RETURN p.email", /Property 'email' is masked/],
+    ["MATCH (p:Person) RETURN p {.phone}", /Property 'phone' is masked/],
+    ["MATCH ()-[r]->() RETURN r.reference", /Property 'reference' is masked/],
+    ["MATCH (p:Person) RETURN properties(p)", /read all properties/],
+    ["MATCH (p:Person) RETURN p {.*}", /read all properties/],
+    ["MATCH (p:Person) RETURN p['email']", /subscript at line 1, column 26/],
+    ["MATCH (p:Person) RETURN p[$key]", /computed key/],
+    ["MATCH (p:Person) RETURN [k IN keys(p) | p[k]]", /computed key/],
+    ["MATCH (p:Person) WITH p, 'em' + 'ail' AS k RETURN p[k]", /computed key/],
+    ["MATCH (p:Person) RETURN {person: p}['person']", /computed key/],
+    ["MATCH (p:Person) RETURN apoc.convert.toJson(p)", /Function 'apoc.convert.toJson'/],
+    ["MATCH (p:Person) RETURN apoc.map.removeKey(properties(p), 'x')", /read all properties/],
+    ["MATCH (p:Person) RETURN apoc.map.merge(p, {})", /Function 'apoc.map.merge'/],
+    ["MATCH (p:Person) RETURN APOC.ANY.property(p, 'e' + 'mail')", /Function 'APOC.ANY.property'/],
+    ["MATCH (a), (b) RETURN apoc.diff.nodes(a, b)", /Function 'apoc.diff.nodes'/],
+    ["MATCH (p:Person) RETURN `properties`(p)", /read all properties/],
+    ["MATCH (p:Person) RETURN `PROPERTIES`(p)", /read all properties/],
+    ["MATCH (p:Person) RETURN `apoc`.convert.toJson(p)", /Function 'apoc.convert.toJson'/],
+    ["MATCH (p:Person) RETURN `apoc.convert.toJson`(p)", /Function 'apoc.convert.toJson'/],
+    ["MATCH (p:Person) RETURN apoc.`convert`.`toJson`(p)", /Function 'apoc.convert.toJson'/],
+    ["MATCH (p:Person) RETURN p.`email`", /Property 'email' is masked/],
+    ["MATCH (n) RETURN n.name", /node pattern at line 1, column 7 has no label/],
+    ["MATCH (p:Person)-->(x) RETURN x.name", /node pattern at line 1, column 20 has no label/],
+    ["MATCH (n:!Person) RETURN n.name", /'!' at line 1, column 10/],
+    ["MATCH p = (a:Person)-[*]->(b:Person) RETURN [x IN nodes(p) | x.name]", /variable-length relationship/],
+    ["MATCH (a:Person)-[r]->(b:Account) RETURN endNode(r).name", /endNode\(\) at line 1/],
+    ["CALL db.index.fulltext.queryNodes('idx', 'x') YIELD node RETURN node.name", /CALL db.index.fulltext.queryNodes/],
+  ];
+  for (const [query, reason] of rejected) {
+    it(`rejects ${JSON.stringify(query)}`, () => {
+      assert.throws(() => assertQueryRespectsMasking(policy, query), reason);
+    });
+  }
+
+  it("accepts procedures the server reports cannot yield nodes", () => {
+    const nodeProcedures = new Set(["db.index.fulltext.querynodes"]);
+    assert.doesNotThrow(() => assertQueryRespectsMasking(policy, "CALL db.labels() YIELD label RETURN label", nodeProcedures));
+    assert.throws(() => assertQueryRespectsMasking(policy, "CALL db.index.fulltext.queryNodes('idx', 'x') YIELD node RETURN node.name", nodeProcedures), /can yield nodes/);
+  });
+
+  it("accepts unlabelled node patterns when no label is hidden", () => {
+    const unhidden: MaskingPolicy = { ...policy, hiddenLabels: [] };
+    assert.doesNotThrow(() => assertQueryRespectsMasking(unhidden, "MATCH (n)-[*]->(m) RETURN n.name, m"));
+  });
+
+  it("accepts anything without a policy", () => {
+    const empty: MaskingPolicy = { labels: {}, relationshipTypes: {}, hiddenLabels: [], hashSalt: "" };
+    assert.doesNotThrow(() => assertQueryRespectsMasking(empty, "MATCH (p) RETURN apoc.convert.toJson(p), p['email']"));
+  });
+});
+
+describe("Redactor", () => {
+  it("drops, hashes and masks properties by label and reports them", () => {
+    const redactor = new Redactor(policy);
+    const masked = redactor.mask(node(["Person", "Account"], { name: "Alice", email: "a@x", phone: "+4917012344821", iban: "DE00" }));
+    assert.equal(masked.properties.name, "Alice");
+    assert.match(masked.properties.email, /^sha256:[0-9a-f]{64}$/);
+    assert.equal(masked.properties.phone, "**********4821");
+    assert.equal("iban" in masked.properties, false);
+    assert.deepEqual(redactor.report(), {
+      hiddenNodes: 0,
+      properties: [
+        { on: "Person", property: "email", action: "hash", count: 1 },
+        { on: "Person", property: "phone", action: "mask", count: 1 },
+        { on: "Account", property: "iban", action: "drop", count: 1 },
+      ],
+    });
+  });
+
+  it("returns hidden nodes, and paths through them, as null", () => {
+    const redactor = new Redactor(policy);
+    const secret = node(["Secret"], {});
+    const visible = node(["Person"], {});
+    const relationship = new neo4j.types.Relationship(neo4j.int(2), neo4j.int(1), neo4j.int(1), "R", {}, "5:db:2", "4:db:1", "4:db:1");
+    const path = new neo4j.types.Path(visible, secret, [new neo4j.types.PathSegment(visible, relationship, secret)]);
+    assert.deepEqual(redactor.mask([secret, { nested: secret }, path]), [null, { nested: null }, null]);
+    assert.ok(redactor.report()!.hiddenNodes > 0);
+  });
+
+  it("leaves results alone without anything to redact", () => {
+    const redactor = new Redactor(policy);
+    assert.equal(redactor.mask("text"), "text");
+    assert.equal(redactor.report(), undefined);
+  });
+});
+
+describe("Redactor with allowed labels", () => {
+  const none: MaskingPolicy = { labels: {}, relationshipTypes: {}, hiddenLabels: [], hashSalt: "" };
+
+  it("hides nodes with a label outside the list or without labels", () => {
+    const redactor = new Redactor(none, ["Public"]);
+    assert.equal(redactor.isHidden(["Public"]), false);
+    assert.equal(redactor.isHidden(["Public", "Secret"]), true);
+    assert.equal(redactor.isHidden([]), true);
+    assert.deepEqual(redactor.mask([node(["Secret"], {}), node([], {})]), [null, null]);
+    assert.equal(redactor.mask(node(["Public"], { name: "x" })).properties.name, "x");
+    assert.equal(redactor.report()?.hiddenNodes, 2);
+  });
+
+  it("combines with the masking policy", () => {
+    const redactor = new Redactor(policy, ["Person", "Secret"]);
+    assert.equal(redactor.isHidden(["Secret"]), true);
+    assert.match(redactor.mask(node(["Person"], { email: "a@x" })).properties.email, /^sha256:/);
+  });
+});
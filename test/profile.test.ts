@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import neo4j from "neo4j-driver";
+import type { ProfileSample } from "../src/profile.js";
+import type { MaskingPolicy } from "../src/masking.js";
+
+// The config is read from the environment when the modules load
+process.env.NEO4J_PASSWORD ??= "test";
+const { profileProperties } = await import("../src/profile.js");
+const { Redactor } = await import("../src/masking.js");
+
+const policy: MaskingPolicy = {
+  labels: { Person: { email: "hash" }, Employee: { ssn: "drop" } },
+  relationshipTypes: {},
+  hiddenLabels: ["Secret"],
+  hashSalt: "salt",
+};
+
+let id = 0;
+const node = (labels: string[], properties: Record<string, unknown>) => {
+  id++;
+  return new neo4j.types.Node(neo4j.int(id), labels, properties, `4:db:${id}`);
+};
+
+const sample = (nodes: InstanceType<typeof neo4j.types.Node>[]): ProfileSample => ({
+  entities: nodes.map(entity => ({ entity, types: new Map(Object.keys(entity.properties).map(key => [key, "STRING"])) })),
+  total: nodes.length,
+  query: "MATCH (n:`Person`) WITH n LIMIT $sampleSize RETURN n AS entity",
+});
+
+describe("profileProperties", () => {
+  it("profiles values as the masking policy returns them under every label of a node", () => {
+    const redactor = new Redactor(policy);
+    const profile = profileProperties(
+      sample([
+        node(["Person"], { name: "Alice", ssn: "111" }),
+        node(["Person", "Employee"], { name: "Bob", ssn: "222", email: "bob@x" }),
+        node(["Person", "Secret"], { name: "Carol", ssn: "333" }),
+      ]),
+      10,
+      entity => redactor.mask(entity)
+    );
+
+    assert.equal(profile.sampled, 2);
+    const byName = new Map(profile.properties.map(entry => [entry.property, entry]));
+    assert.deepEqual(byName.get("name")!.topValues.map(value => value.value).sort(), ["Alice", "Bob"]);
+    // Employee drops ssn, so only the plain Person's value is left
+    assert.equal(byName.get("ssn")!.fillRate, 0.5);
+    assert.deepEqual(byName.get("ssn")!.topValues, [{ value: "111", count: 1 }]);
+    assert.match(String(byName.get("email")!.topValues[0].value), /^sha256:/);
+    assert.equal(redactor.report()?.hiddenNodes, 1);
+  });
+
+  it("leaves out nodes outside the allowed labels", () => {
+    const redactor = new Redactor({ ...policy, labels: {}, hiddenLabels: [] }, ["Person"]);
+    const profile = profileProperties(
+      sample([node(["Person"], { name: "Alice" }), node(["Person", "Internal"], { name: "Dave", salary: "100" })]),
+      10,
+      entity => redactor.mask(entity)
+    );
+
+    assert.equal(profile.sampled, 1);
+    assert.deepEqual(profile.properties.map(entry => entry.property), ["name"]);
+  });
+});
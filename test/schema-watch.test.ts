@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+// The config is read from the environment when the modules load
+process.env.NEO4J_PASSWORD ??= "test";
+process.env.NEO4J_MCP_SCHEMA_POLL_INTERVAL_MS = "10";
+const { metadataCache } = await import("../src/cache.js");
+const { watchSchema } = await import("../src/schema-watch.js");
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  assert.ok(condition());
+};
+
+describe("watchSchema", () => {
+  it("polls once per target for all listeners and reports changes", async () => {
+    const target = { connection: "shared" };
+    let schema = ["Person"];
+    let reads = 0;
+    const seen: string[] = [];
+    const listener = (name: string) => ({
+      read: async () => {
+        reads++;
+        return schema;
+      },
+      checked: async (changed: boolean) => {
+        seen.push(`${name}:${changed}`);
+      },
+    });
+
+    const stopA = watchSchema(target, listener("a"));
+    const stopB = watchSchema(target, listener("b"));
+    await waitFor(() => seen.length >= 2);
+    assert.equal(reads, 1);
+    assert.deepEqual(seen.slice(0, 2), ["a:false", "b:false"]);
+
+    schema = ["Person", "Company"];
+    await waitFor(() => seen.some(entry => entry.endsWith(":true")));
+    assert.ok(seen.includes("a:true") && seen.includes("b:true"));
+    stopA();
+    stopB();
+  });
+
+  it("drops only the cached metadata of the watched database", async () => {
+    const connection = "invalidate";
+    let loads = 0;
+    const load = async () => ++loads;
+    await metadataCache.get({ connection }, "counts", load);
+    await metadataCache.get({ connection, database: "movies" }, "counts", load);
+
+    let schema = ["Person"];
+    let checks = 0;
+    let changes = 0;
+    const stop = watchSchema({ connection }, {
+      read: async () => schema,
+      checked: async changed => {
+        checks++;
+        changes += changed ? 1 : 0;
+      },
+    });
+    await waitFor(() => checks >= 1);
+    schema = ["Person", "Company"];
+    await waitFor(() => changes === 1);
+    stop();
+
+    assert.equal((await metadataCache.get({ connection }, "counts", load)).value, 3);
+    assert.equal((await metadataCache.get({ connection, database: "movies" }, "counts", load)).value, 2);
+  });
+});
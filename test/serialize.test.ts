@@ -0,0 +1,180 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import neo4j from "neo4j-driver";
+import { serializeValue } from "../src/serialize.js";
+
+const { Date, DateTime, Duration, LocalDateTime, LocalTime, Node, Path, PathSegment, Point, Relationship, Time } =
+  neo4j.types;
+
+const alice = new Node(neo4j.int(1), ["Person"], { name: "Alice", age: neo4j.int(42) }, "4:db:1");
+const bob = new Node(neo4j.int(2), ["Person", "Employee"], { name: "Bob" }, "4:db:2");
+const knows = new Relationship(
+  neo4j.int(7),
+  neo4j.int(1),
+  neo4j.int(2),
+  "KNOWS",
+  { since: neo4j.int(2020) },
+  "5:db:7",
+  "4:db:1",
+  "4:db:2"
+);
+
+// A date-time carrying only its zone, as older protocol versions send it
+const zoned = (month: number, day: number, hour: number, minute: number, zone: string) =>
+  serializeValue(new DateTime(2024, month, day, hour, minute, 0, 0, undefined, zone));
+
+describe("serializeValue", () => {
+  describe("integers", () => {
+    it("returns safe integers as numbers", () => {
+      assert.equal(serializeValue(neo4j.int(42)), 42);
+      assert.equal(serializeValue(neo4j.int(-42)), -42);
+      assert.equal(serializeValue(neo4j.int(Number.MAX_SAFE_INTEGER)), Number.MAX_SAFE_INTEGER);
+      assert.equal(serializeValue(neo4j.int(Number.MIN_SAFE_INTEGER)), Number.MIN_SAFE_INTEGER);
+    });
+
+    it("returns integers outside the safe range as exact decimal strings", () => {
+      assert.equal(serializeValue(neo4j.int("9007199254740992")), "9007199254740992");
+      assert.equal(serializeValue(neo4j.int("9007199254740993")), "9007199254740993");
+      assert.equal(serializeValue(neo4j.int("-9007199254740993")), "-9007199254740993");
+      assert.equal(serializeValue(neo4j.int("9223372036854775807")), "9223372036854775807");
+      assert.equal(serializeValue(neo4j.int("-9223372036854775808")), "-9223372036854775808");
+    });
+
+    it("handles native bigints the same way", () => {
+      assert.equal(serializeValue(42n), 42);
+      assert.equal(serializeValue(9007199254740993n), "9007199254740993");
+    });
+
+    it("converts integers nested in lists and maps", () => {
+      assert.deepEqual(serializeValue({ counts: [neo4j.int(1), neo4j.int("9007199254740993")] }), {
+        counts: [1, "9007199254740993"],
+      });
+    });
+  });
+
+  describe("graph entities", () => {
+    it("identifies nodes by element id and sorts their properties", () => {
+      const node = serializeValue(alice);
+      assert.deepEqual(node, { elementId: "4:db:1", labels: ["Person"], properties: { age: 42, name: "Alice" } });
+      assert.deepEqual(Object.keys((node as { properties: object }).properties), ["age", "name"]);
+    });
+
+    it("identifies relationships and their end nodes by element id", () => {
+      assert.deepEqual(serializeValue(knows), {
+        elementId: "5:db:7",
+        type: "KNOWS",
+        startElementId: "4:db:1",
+        endElementId: "4:db:2",
+        properties: { since: 2020 },
+      });
+    });
+
+    it("does not return numeric identities", () => {
+      const json = JSON.stringify(serializeValue([alice, knows]));
+      assert.ok(!json.includes("identity"));
+    });
+
+    it("serializes paths segment by segment", () => {
+      const path = new Path(alice, bob, [new PathSegment(alice, knows, bob)]);
+      assert.deepEqual(serializeValue(path), {
+        start: serializeValue(alice),
+        end: serializeValue(bob),
+        length: 1,
+        segments: [{ start: serializeValue(alice), relationship: serializeValue(knows), end: serializeValue(bob) }],
+      });
+    });
+
+    it("serializes zero-length paths", () => {
+      assert.deepEqual(serializeValue(new Path(alice, alice, [])), {
+        start: serializeValue(alice),
+        end: serializeValue(alice),
+        length: 0,
+        segments: [],
+      });
+    });
+  });
+
+  describe("temporal values", () => {
+    it("writes dates, times and local values as ISO-8601", () => {
+      assert.equal(serializeValue(new Date(2024, 2, 29)), "2024-02-29");
+      assert.equal(serializeValue(new Time(12, 30, 15, 500000000, -18000)), "12:30:15.500000000-05:00");
+      assert.equal(serializeValue(new Time(12, 30, 15, 0, 0)), "12:30:15Z");
+      assert.equal(serializeValue(new LocalTime(1, 2, 3, 4)), "01:02:03.000000004");
+      assert.equal(serializeValue(new LocalDateTime(2024, 1, 2, 3, 4, 5, 0)), "2024-01-02T03:04:05");
+    });
+
+    it("writes durations as ISO-8601", () => {
+      assert.equal(serializeValue(new Duration(14, 3, 3723, 500000000)), "P14M3DT3723.500000000S");
+      assert.equal(serializeValue(new Duration(0, 0, 0, 0)), "P0M0DT0S");
+    });
+
+    it("keeps the offset of date-times", () => {
+      assert.equal(serializeValue(new DateTime(2024, 1, 2, 3, 4, 5, 6000000, 3600)), "2024-01-02T03:04:05.006000000+01:00");
+      assert.equal(serializeValue(new DateTime(2024, 1, 2, 3, 4, 5, 0, 0)), "2024-01-02T03:04:05Z");
+    });
+
+    it("keeps the offset and zone of zoned date-times", () => {
+      assert.equal(
+        serializeValue(new DateTime(2024, 1, 2, 3, 4, 5, 0, 3600, "Europe/Berlin")),
+        "2024-01-02T03:04:05+01:00[Europe/Berlin]"
+      );
+    });
+
+    it("derives the offset of date-times that only carry a zone", () => {
+      assert.equal(zoned(1, 15, 12, 0, "Europe/Berlin"), "2024-01-15T12:00:00+01:00[Europe/Berlin]");
+      assert.equal(zoned(7, 15, 12, 0, "Europe/Berlin"), "2024-07-15T12:00:00+02:00[Europe/Berlin]");
+      assert.equal(zoned(7, 15, 12, 0, "Asia/Kolkata"), "2024-07-15T12:00:00+05:30[Asia/Kolkata]");
+      assert.equal(zoned(7, 15, 12, 0, "UTC"), "2024-07-15T12:00:00Z[UTC]");
+    });
+
+    it("picks the offset in force on either side of a DST transition", () => {
+      // Clocks in New York go from 02:00 to 03:00 on 10 March and from 02:00 back to 01:00 on 3 November
+      assert.equal(zoned(3, 10, 1, 59, "America/New_York"), "2024-03-10T01:59:00-05:00[America/New_York]");
+      assert.equal(zoned(3, 10, 3, 0, "America/New_York"), "2024-03-10T03:00:00-04:00[America/New_York]");
+      assert.equal(zoned(11, 3, 0, 59, "America/New_York"), "2024-11-03T00:59:00-04:00[America/New_York]");
+      assert.equal(zoned(11, 3, 2, 0, "America/New_York"), "2024-11-03T02:00:00-05:00[America/New_York]");
+      // Berlin switches at 02:00 on 31 March and at 03:00 on 27 October
+      assert.equal(zoned(3, 31, 1, 59, "Europe/Berlin"), "2024-03-31T01:59:00+01:00[Europe/Berlin]");
+      assert.equal(zoned(3, 31, 3, 0, "Europe/Berlin"), "2024-03-31T03:00:00+02:00[Europe/Berlin]");
+      assert.equal(zoned(10, 27, 3, 0, "Europe/Berlin"), "2024-10-27T03:00:00+01:00[Europe/Berlin]");
+    });
+
+    it("uses the earlier offset for times repeated when clocks go back", () => {
+      assert.equal(zoned(11, 3, 1, 30, "America/New_York"), "2024-11-03T01:30:00-04:00[America/New_York]");
+      assert.equal(zoned(10, 27, 2, 30, "Europe/Berlin"), "2024-10-27T02:30:00+02:00[Europe/Berlin]");
+    });
+
+    it("uses the later offset for times skipped when clocks go forward", () => {
+      assert.equal(zoned(3, 10, 2, 30, "America/New_York"), "2024-03-10T02:30:00-04:00[America/New_York]");
+      assert.equal(zoned(3, 31, 2, 30, "Europe/Berlin"), "2024-03-31T02:30:00+02:00[Europe/Berlin]");
+    });
+  });
+
+  describe("points", () => {
+    it("writes 2D points without z", () => {
+      assert.deepEqual(serializeValue(new Point(7203, 1, 2)), { srid: 7203, x: 1, y: 2 });
+      assert.deepEqual(serializeValue(new Point(neo4j.int(4326), 13.4, 52.5)), { srid: 4326, x: 13.4, y: 52.5 });
+    });
+
+    it("writes 3D points with z", () => {
+      assert.deepEqual(serializeValue(new Point(9157, 1, 2, 3)), { srid: 9157, x: 1, y: 2, z: 3 });
+      assert.deepEqual(serializeValue(new Point(neo4j.int(4979), 13.4, 52.5, 34)), { srid: 4979, x: 13.4, y: 52.5, z: 34 });
+    });
+  });
+
+  describe("byte arrays", () => {
+    it("writes byte arrays as lists of numbers", () => {
+      assert.deepEqual(serializeValue(new Int8Array([1, -2, 127])), [1, -2, 127]);
+      assert.deepEqual(serializeValue(new Uint8Array([0, 255])), [0, 255]);
+      assert.deepEqual(serializeValue(new Int8Array([])), []);
+    });
+  });
+
+  it("passes plain values through and maps undefined to null", () => {
+    assert.equal(serializeValue("text"), "text");
+    assert.equal(serializeValue(1.5), 1.5);
+    assert.equal(serializeValue(true), true);
+    assert.equal(serializeValue(null), null);
+    assert.equal(serializeValue(undefined), null);
+  });
+});